@@ -1,7 +1,8 @@
 import Link from 'next/link';
 import { Button } from '@/components/ui/button';
 import { Palette } from 'lucide-react';
-import { PaletteType } from '@/lib/colors'; // Import PaletteType from colors.ts
+import { createRandom, createSeed, getPaletteGenerators, randomHexColor } from '@/lib/colors'; // Import the generator registry and the seeded PRNG from colors.ts
+import { formatShareHash } from '@/lib/share-url';
 
 export default function NotFound() {
   // Generate a random gradient for visual interest
@@ -13,27 +14,21 @@ export default function NotFound() {
     ['#FFDEE9', '#B5FFFC'], // Pink to Cyan
   ];
   
-  // Generate a random hex color (similar to handleRandomColor in page.tsx)
-  const randomHex = '#' + Array.from(
-    { length: 6 },
-    () => Math.floor(Math.random() * 16).toString(16)
-  ).join('');
+  // Every random pick below comes from one seed, so the suggestion can be shared
+  const seed = createSeed();
+  const random = createRandom(seed);
+
+  // Generate a random hex color (the same color handleRandomColor in page.tsx derives from this seed)
+  const randomHex = randomHexColor(random);
   
-  // Define available palette types
-  const paletteTypes: PaletteType[] = [
-    'monochromatic',
-    'analogous',
-    'complementary',
-    'triadic',
-    'tetradic',
-    'split-complementary'
-  ];
+  // Available palette types come from the generator registry
+  const paletteTypes = getPaletteGenerators().map(generator => generator.id);
   
   // Pick a random palette type
-  const randomPaletteType = paletteTypes[Math.floor(Math.random() * paletteTypes.length)];
+  const randomPaletteType = paletteTypes[Math.floor(random() * paletteTypes.length)];
   
   // Generate random gradient
-  const randomGradient = colors[Math.floor(Math.random() * colors.length)];
+  const randomGradient = colors[Math.floor(random() * colors.length)];
 
   return (
     <main className="min-h-screen py-10 px-4 flex flex-col items-center justify-center">
@@ -63,7 +58,15 @@ export default function NotFound() {
         
         {/* Show the randomly generated color and palette type */}
         <p className="text-sm font-mono bg-muted p-2 rounded-md mb-8">
-          Try <span className="font-semibold" style={{ color: randomHex }}>{randomHex}</span> with {randomPaletteType} palette
+          Try{' '}
+          <Link
+            href={`/#${formatShareHash({ color: randomHex, type: randomPaletteType, seed })}`}
+            className="font-semibold underline-offset-4 hover:underline"
+            style={{ color: randomHex }}
+          >
+            {randomHex}
+          </Link>
+          {' '}with {randomPaletteType} palette
         </p>
         
         {/* Fix: Adding proper href to the Link component */}
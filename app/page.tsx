@@ -3,114 +3,255 @@
 import React, { useState, useEffect, useCallback, useMemo } from "react";
 import { toast } from "sonner";
 import { Button } from "@/components/ui/button";
-import { hexToHSL, isValidHexColor, standardizeHexColor, PaletteType } from "@/lib/colors";
+import { CUSTOM_PALETTE_TYPE, DEFAULT_CUSTOM_HARMONY, DEFAULT_PALETTE_TYPE, DEFAULT_SWATCH_LIMITS, createSeed, formatColor, interpolateColor, getMinSwatches, formatSwatchLimits, isPaletteType, parseColor, parseSwatchLimits, seededHexColor, simulatePaletteCvd, AlphaMode, ColorFormat, CvdSimulation, GenerationSpace, HarmonyStop, PaletteType, SwatchLimits, VariationStrategy } from "@/lib/colors";
+import { ContrastEnforcement, describeContrastTarget } from "@/lib/contrast";
+import { formatHarmony, formatShareHash, parseHarmony, parseShareHash, GenerationSettings, SharedPalette } from "@/lib/share-url";
+import { analyzeDistinguishability, describeSwatchWarnings, DEFAULT_DISTINCT_THRESHOLD } from "@/lib/palette-analysis";
 import { Toaster } from "@/components/ui/sonner";
 import { Palette } from "lucide-react";
 import { ThemeToggle } from "@/components/theme-toggle";
-import { usePaletteGenerator } from "@/hooks/use-palette-generator";
+import { PaletteGenerationOptions, usePaletteGenerator } from "@/hooks/use-palette-generator";
+import { useColorNames } from "@/hooks/use-color-names";
+import { ColorNameSource } from "@/lib/color-names";
 import { PaletteControls } from "@/components/ui/palette-controls";
-import { ColorSwatch } from "@/components/ui/color-swatch";
+import { ColorSwatch, SwatchLayout } from "@/components/ui/color-swatch";
 import { AddSwatchButton } from "@/components/ui/add-swatch-button";
 import { debounce } from 'lodash';
 import ColorPicker from "@/components/ui/color-picker";
 import { Footer } from "@/components/ui/footer";
-
-// Define available color formats
-type ColorFormat = 'hex' | 'hsl' | 'oklch';
+import { CvdControls } from "@/components/ui/cvd-controls";
+import { DistinctnessThreshold } from "@/components/ui/distinctness-threshold";
+import { HarmonyBuilder } from "@/components/ui/harmony-builder";
+import { GradientPanel } from "@/components/ui/gradient-panel";
+import { AnchorColors } from "@/components/ui/anchor-colors";
+import { HistoryControls } from "@/components/ui/history-controls";
+import { useHistory } from "@/hooks/use-history";
+import { HISTORY_LIMIT, PaletteSnapshot, describePaletteChange, isSameSnapshot } from "@/lib/palette-history";
+import { SwatchSortKey, isIdentityOrder, normalizeOrder, removeFromOrder, sortOrder } from "@/lib/palette-order";
+import { SortableSwatches } from "@/components/ui/sortable-swatches";
+import { SwatchSortMenu } from "@/components/ui/swatch-sort-menu";
+import { SwatchLayoutMenu } from "@/components/ui/swatch-layout-menu";
+import { PaletteLibrary } from "@/components/ui/palette-library";
+import { usePaletteLibrary } from "@/hooks/use-palette-library";
+import { SavedPalette, createSavedPalette } from "@/lib/palette-library";
 
 /**
  * The main page component for the PaletteLab application.
 **/
+// Where the custom harmony is saved between visits
+const CUSTOM_HARMONY_STORAGE_KEY = 'palettelab-custom-harmony';
+
+// Where the swatch layout and limits are saved between visits
+const SWATCH_LAYOUT_STORAGE_KEY = 'palettelab-swatch-layout';
+const SWATCH_LIMITS_STORAGE_KEY = 'palettelab-swatch-limits';
+
+// Row height and visible height of the swatch list, which only renders the rows in view
+const LIST_ROW_HEIGHT = 48;
+const LIST_MAX_HEIGHT = 480;
+
+// Generation options with the alpha mode, distance, variation and contrast target of `settings`
+const withSettings = (options: PaletteGenerationOptions, settings: GenerationSettings): PaletteGenerationOptions => ({
+  ...options,
+  alphaMode: settings.alphaMode,
+  minDistance: settings.minDistance,
+  variation: settings.variation,
+  enforceContrast: settings.contrastEnforcement ?? undefined
+});
+
 export default function Home() {
   // Combined state object for color-related state
   const [colorState, setColorState] = useState({
     inputColor: "#3b82f6",
+    baseColor: "#3b82f6",
     isValidInput: true,
-    paletteType: 'monochromatic' as PaletteType,
+    inputError: null as string | null,
+    paletteType: DEFAULT_PALETTE_TYPE,
     colorFormat: 'hex' as ColorFormat,
-    swatchCount: 5
+    generationSpace: 'hsl' as GenerationSpace,
+    alphaMode: 'fixed' as AlphaMode,
+    contrastEnforcement: null as ContrastEnforcement | null,
+    variation: 'auto' as VariationStrategy,
+    minDistance: DEFAULT_DISTINCT_THRESHOLD,
+    swatchCount: 5,
+    // Seed the base color was drawn from, null once the color is picked by hand
+    seed: null as number | null
   });
 
   // Extract values from combined state for easier access
-  const { inputColor, isValidInput, paletteType, colorFormat, swatchCount } = colorState;
+  const { inputColor, baseColor, isValidInput, inputError, paletteType, colorFormat, generationSpace, alphaMode, contrastEnforcement, variation, minDistance, swatchCount, seed } = colorState;
+
+  // The settings shared in the URL so a link generates the same palette
+  const generationSettings = useMemo<GenerationSettings>(() => ({
+    swatchCount,
+    generationSpace,
+    alphaMode,
+    minDistance,
+    variation,
+    contrastEnforcement
+  }), [swatchCount, generationSpace, alphaMode, minDistance, variation, contrastEnforcement]);
+
+  // The same settings without the count, which history snapshots keep on their own
+  const snapshotSettings = useMemo(() => ({
+    generationSpace,
+    alphaMode,
+    minDistance,
+    variation,
+    contrastEnforcement
+  }), [generationSpace, alphaMode, minDistance, variation, contrastEnforcement]);
+
+  // Hue offsets for the custom harmony, saved in localStorage and shared in the URL
+  const [customHarmony, setCustomHarmony] = useState<HarmonyStop[]>(DEFAULT_CUSTOM_HARMONY);
+
+  // Colors kept unchanged in the palette alongside the base color
+  const [anchors, setAnchors] = useState<string[]>([]);
+
+  // Colors locked in place by swatch index, kept through every regeneration
+  const [locked, setLocked] = useState<(string | null)[]>([]);
+
+  // Custom display order as palette indices, null for the generated order
+  const [order, setOrder] = useState<number[] | null>(null);
+
+  // Generation options beyond color, type and count
+  const paletteOptions = useMemo<PaletteGenerationOptions>(() => ({
+    alphaMode,
+    minDistance,
+    variation,
+    harmony: paletteType === CUSTOM_PALETTE_TYPE ? customHarmony : undefined,
+    anchors: anchors.length > 0 ? anchors : undefined,
+    locked: locked.some(Boolean) ? locked : undefined,
+    enforceContrast: contrastEnforcement ?? undefined
+  }), [alphaMode, minDistance, variation, paletteType, customHarmony, anchors, locked, contrastEnforcement]);
+
+  // Color vision deficiency the grid is rendered with, null for normal vision
+  const [cvdSimulation, setCvdSimulation] = useState<CvdSimulation | null>(null);
+
+  // CIEDE2000 distance below which swatch pairs are flagged as hard to tell apart
+  const [distinctThreshold, setDistinctThreshold] = useState(DEFAULT_DISTINCT_THRESHOLD);
+
+  // How the swatches are laid out, and how few and how many adding and removing allow
+  const [swatchLayout, setSwatchLayout] = useState<SwatchLayout>('grid');
+  const [swatchLimits, setSwatchLimits] = useState<SwatchLimits>(DEFAULT_SWATCH_LIMITS);
+
+  // Which list swatch names are looked up in
+  const [nameSource, setNameSource] = useState<ColorNameSource>('extended');
 
   // State for copied states
   const [copiedStates, setCopiedStates] = useState<boolean[]>([]);
 
   // Use the custom hook to manage palette generation logic and state
-  const { palette, textColors, loading, generatePaletteWithType } = usePaletteGenerator();
+  const {
+    palette,
+    generatedPalette,
+    overrides,
+    textColors,
+    gamutMapped,
+    adjustments,
+    loading,
+    generatePaletteWithType,
+    setPaletteColors,
+    setOverride,
+    setOverrides
+  } = usePaletteGenerator();
 
-  // Memoize the function to convert colors to the selected format
-  const formatColor = useMemo(() => {
-    return (hexColor: string, format: ColorFormat): string => {
-      try {
-        switch (format) {
-          case 'hex':
-            return hexColor;
-          case 'hsl': {
-            const { h, s, l } = hexToHSL(hexColor);
-            return `hsl(${Math.round(h)}deg ${Math.round(s * 100)}% ${Math.round(l * 100)}%)`;
-          }
-          case 'oklch': {
-            // This is a simplified conversion for display purposes
-            const { h, s, l } = hexToHSL(hexColor);
-            const chroma = s * 0.4;
-            return `oklch(${Math.round(l * 100)}% ${chroma.toFixed(2)} ${Math.round(h)}deg)`;
-          }
-          default:
-            return hexColor;
-        }
-      } catch (e) {
-        console.error("Error formatting color:", e);
-        return hexColor;
-      }
-    };
-  }, []);
+  // The palette last set from explicit colors (an image, a shared list); it stops
+  // matching `generatedPalette` as soon as anything is generated again
+  const [importedPalette, setImportedPalette] = useState<string[] | null>(null);
+  const paletteIsImported = importedPalette !== null && importedPalette === generatedPalette;
+
+  // Palette indices and colors in the order they are shown, shared and exported
+  const orderedIndices = useMemo(() => normalizeOrder(order, palette.length), [order, palette.length]);
+  const orderedPalette = useMemo(() => orderedIndices.map(index => palette[index]), [orderedIndices, palette]);
+
+  // Nearest name for each swatch
+  const { names: colorNames } = useColorNames(palette, nameSource);
+
+  // Undo history of everything that makes up the palette
+  const history = useHistory<PaletteSnapshot>(HISTORY_LIMIT);
+  const { current: currentHistoryEntry, record: recordHistory } = history;
 
   // Memoize the color to copy based on the selected format
   const getColorToCopy = useCallback((hexColor: string): string => {
     return formatColor(hexColor, colorFormat);
-  }, [colorFormat, formatColor]);
+  }, [colorFormat]);
 
   // Parse URL hash on initial load to get shared palette details
   useEffect(() => {
     if (typeof window !== 'undefined') {
-      const hash = window.location.hash;
-      if (hash) {
-        const parts = hash.substring(1).split('/');
-        if (parts.length >= 1) {
-          const colorHex = parts[0];
-          if (isValidHexColor(colorHex)) {
-            const standardizedHex = standardizeHexColor(colorHex);
-            
-            // Update color state in one operation
-            setColorState(prev => ({
-              ...prev,
-              inputColor: standardizedHex,
-              isValidInput: true,
-              paletteType: parts.length >= 2 && isValidPaletteType(parts[1] as PaletteType) 
-                ? parts[1] as PaletteType 
-                : prev.paletteType
-            }));
-            
-            // Generate the palette after a short delay
-            setTimeout(() => {
-              const type = parts.length >= 2 && isValidPaletteType(parts[1] as PaletteType)
-                ? parts[1] as PaletteType
-                : 'monochromatic';
-                
-              generatePaletteWithType(standardizedHex, type, swatchCount)
-                .then(colors => {
-                  setCopiedStates(new Array(colors.length).fill(false));
-                })
-                .catch(() => handleRandomColor());
-            }, 100);
-          } else {
-            handleRandomColor();
-          }
-        } else {
-          handleRandomColor();
-        }
+      const shared = parseShareHash(window.location.hash);
+
+      // A harmony in the URL wins over the one saved on this machine
+      const savedHarmony = parseHarmony(window.localStorage.getItem(CUSTOM_HARMONY_STORAGE_KEY) ?? '');
+      const harmony = shared.harmony ?? savedHarmony ?? DEFAULT_CUSTOM_HARMONY;
+      setCustomHarmony(harmony);
+
+      const savedLayout = window.localStorage.getItem(SWATCH_LAYOUT_STORAGE_KEY);
+      if (savedLayout === 'grid' || savedLayout === 'strip' || savedLayout === 'list') {
+        setSwatchLayout(savedLayout);
+      }
+      const limits = parseSwatchLimits(window.localStorage.getItem(SWATCH_LIMITS_STORAGE_KEY) ?? '') ?? DEFAULT_SWATCH_LIMITS;
+      setSwatchLimits(limits);
+
+      // Only as many anchors as leave room for the base color within the most swatches allowed
+      const sharedAnchors = shared.anchors?.slice(0, limits.max - 1);
+      setAnchors(sharedAnchors ?? []);
+      setLocked(shared.locked ?? []);
+      setOverrides(shared.overrides ?? []);
+      setOrder(shared.order ?? null);
+
+      // Settings in the link replace the defaults, so it generates what the sender saw;
+      // the count always leaves room for the base color and the anchors, within the limits
+      const settings = { ...generationSettings, ...shared.settings };
+      settings.swatchCount = Math.min(limits.max, Math.max(settings.swatchCount, (sharedAnchors?.length ?? 0) + 1));
+      const sharedOptions = withSettings(paletteOptions, settings);
+      setColorState(prev => ({ ...prev, ...settings }));
+
+      // A seed on its own is enough to rebuild the base color
+      const sharedColor = shared.color ?? (shared.seed != null ? seededHexColor(shared.seed) : undefined);
+
+      if (shared.colors && shared.colors.length > 0) {
+        // Shared explicit colors are shown as they are
+        const [firstColor] = shared.colors;
+        setColorState(prev => ({
+          ...prev,
+          inputColor: firstColor,
+          baseColor: firstColor,
+          isValidInput: true,
+          inputError: null,
+          paletteType: shared.type && isPaletteType(shared.type) ? shared.type : prev.paletteType,
+          swatchCount: shared.colors!.length
+        }));
+        setImportedPalette(setPaletteColors(shared.colors, sharedOptions));
+        setCopiedStates(new Array(shared.colors.length).fill(false));
+      } else if (sharedColor) {
+        const type = shared.type && isPaletteType(shared.type)
+          ? shared.type
+          : DEFAULT_PALETTE_TYPE;
+
+        // Update color state in one operation
+        setColorState(prev => ({
+          ...prev,
+          inputColor: sharedColor,
+          baseColor: sharedColor,
+          isValidInput: true,
+          inputError: null,
+          paletteType: type,
+          seed: shared.seed ?? null
+        }));
+
+        // Generate the palette after a short delay
+        setTimeout(() => {
+          const options = {
+            ...sharedOptions,
+            harmony: type === CUSTOM_PALETTE_TYPE ? harmony : undefined,
+            anchors: sharedAnchors,
+            locked: shared.locked
+          };
+          generatePaletteWithType(sharedColor, type, settings.swatchCount, settings.generationSpace, options)
+            .then(colors => {
+              setCopiedStates(new Array(colors.length).fill(false));
+            })
+            .catch(() => handleRandomColor());
+        }, 100);
       } else {
         handleRandomColor();
       }
@@ -118,32 +259,50 @@ export default function Home() {
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
-  // Helper function to validate palette types
-  const isValidPaletteType = (type: string): boolean => {
-    const validTypes: PaletteType[] = ['monochromatic', 'analogous', 'complementary', 'triadic', 'tetradic', 'split-complementary'];
-    return validTypes.includes(type as PaletteType);
-  };
-
   /**
-   * Update the URL hash with the current color and palette type for sharing.
+   * Update the URL hash with the current color, palette type, seed and generation
+   * settings for sharing. Custom palettes also carry their harmony, anchored ones their anchors,
+   * imported palettes their colors, and any palette its locked and edited
+   * swatches. `shared` replaces parts that were just changed and aren't in state yet.
+   * `replace` updates the hash without adding a browser history entry.
   **/
-  const updateUrlHash = useCallback((color: string, type: PaletteType) => {
+  const updateUrlHash = useCallback((color: string, type: PaletteType, seed: number | null = null, shared: Partial<SharedPalette> = {}, replace = false) => {
     if (typeof window !== 'undefined') {
-      const standardizedColor = standardizeHexColor(color);
-      window.location.hash = `${standardizedColor.substring(1)}/${type}`;
+      const harmony = type === CUSTOM_PALETTE_TYPE ? customHarmony : undefined;
+      const hash = formatShareHash({
+        color,
+        type,
+        seed,
+        harmony,
+        anchors: shared.colors ? undefined : anchors,
+        locked,
+        overrides,
+        order: order ?? undefined,
+        ...shared,
+        settings: { ...generationSettings, ...shared.settings }
+      });
+      if (replace) {
+        window.history.replaceState(null, '', `#${hash}`);
+      } else {
+        window.location.hash = hash;
+      }
     }
-  }, []);
+  }, [anchors, customHarmony, generationSettings, locked, order, overrides]);
 
   /**
-   * Handles changes to the hex color input field.
+   * Handles changes to the color input field. Accepts any CSS color syntax and
+   * keeps the last valid value as the base color.
   **/
   const handleInputChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     const value = e.target.value;
-    const valid = isValidHexColor(value);
+    const result = parseColor(value);
     setColorState(prev => ({
       ...prev,
       inputColor: value,
-      isValidInput: valid
+      baseColor: result.valid ? result.hex : prev.baseColor,
+      isValidInput: result.valid,
+      inputError: result.valid ? null : result.error,
+      seed: null
     }));
   }, []);
 
@@ -154,7 +313,10 @@ export default function Home() {
     setColorState(prev => ({
       ...prev,
       inputColor: color,
-      isValidInput: true
+      baseColor: color,
+      isValidInput: true,
+      inputError: null,
+      seed: null
     }));
   }, []);
 
@@ -169,7 +331,102 @@ export default function Home() {
   }, []);
 
   /**
-   * Sets the color format (hex, hsl, oklch)
+   * Sets the color space palettes are generated in (hsl, oklch)
+  **/
+  const handleGenerationSpaceChange = useCallback((space: GenerationSpace) => {
+    setColorState(prev => ({
+      ...prev,
+      generationSpace: space
+    }));
+  }, []);
+
+  /**
+   * Sets how alpha is applied across the palette (fixed, ramp)
+  **/
+  const handleAlphaModeChange = useCallback((mode: AlphaMode) => {
+    setColorState(prev => ({
+      ...prev,
+      alphaMode: mode
+    }));
+  }, []);
+
+  /**
+   * Sets the contrast target generated swatches are adjusted to meet, or null for none
+  **/
+  const handleContrastEnforcementChange = useCallback((enforcement: ContrastEnforcement | null) => {
+    setColorState(prev => ({
+      ...prev,
+      contrastEnforcement: enforcement
+    }));
+  }, []);
+
+  /**
+   * Sets how swatches that collide with another one are varied (auto, tints, shades, tones)
+  **/
+  const handleVariationChange = useCallback((variation: VariationStrategy) => {
+    setColorState(prev => ({
+      ...prev,
+      variation
+    }));
+  }, []);
+
+  /**
+   * Sets the smallest CIEDE2000 distance allowed between swatches, 0 to only rule out exact duplicates
+  **/
+  const handleMinDistanceChange = useCallback((minDistance: number) => {
+    setColorState(prev => ({
+      ...prev,
+      minDistance
+    }));
+  }, []);
+
+  /**
+   * Sets the custom harmony's hue offsets and saves them for the next visit
+  **/
+  const handleCustomHarmonyChange = useCallback((stops: HarmonyStop[]) => {
+    setCustomHarmony(stops);
+    window.localStorage.setItem(CUSTOM_HARMONY_STORAGE_KEY, formatHarmony(stops));
+  }, []);
+
+  /**
+   * Sets how the swatches are laid out and saves it for the next visit
+  **/
+  const handleSwatchLayoutChange = useCallback((layout: SwatchLayout) => {
+    setSwatchLayout(layout);
+    window.localStorage.setItem(SWATCH_LAYOUT_STORAGE_KEY, layout);
+  }, []);
+
+  /**
+   * Sets how few and how many swatches adding and removing allow, and saves them for the next visit
+  **/
+  const handleSwatchLimitsChange = useCallback((limits: SwatchLimits) => {
+    setSwatchLimits(limits);
+    window.localStorage.setItem(SWATCH_LIMITS_STORAGE_KEY, formatSwatchLimits(limits));
+  }, []);
+
+  // Fewest swatches removing allows: the palette type's own minimum or the user's, whichever is higher
+  const minSwatches = Math.max(getMinSwatches(paletteType), swatchLimits.min);
+  // Removing also leaves room for the base color and every anchor
+  const minRemainingSwatches = Math.max(minSwatches, anchors.length + 1);
+
+  /**
+   * Sets the anchor colors, raising the swatch count when it can't hold them all with the base color.
+   * No anchor is added past the most swatches allowed.
+  **/
+  const handleAnchorsChange = useCallback((newAnchors: string[]) => {
+    if (newAnchors.length > anchors.length && newAnchors.length + 1 > swatchLimits.max) {
+      toast.error(`Cannot add anchor. Maximum of ${swatchLimits.max} swatches allowed.`);
+      return;
+    }
+    setAnchors(newAnchors);
+    setColorState(prev => ({
+      ...prev,
+      swatchCount: Math.min(swatchLimits.max, Math.max(prev.swatchCount, newAnchors.length + 1))
+    }));
+  }, [anchors.length, swatchLimits.max]);
+
+  /**
+   * Sets the color format (hex, hsl, oklch, p3)
   **/
   const setColorFormat = useCallback((format: ColorFormat) => {
     setColorState(prev => ({
@@ -182,40 +439,113 @@ export default function Home() {
    * Handles removing a swatch at a specific index
   **/
   const handleRemoveSwatch = useCallback((index: number) => {
-    if (swatchCount <= 3) {
-      toast.error("Cannot remove swatch. Minimum of 3 swatches required.");
+    if (swatchCount <= minRemainingSwatches) {
+      toast.error(`Cannot remove swatch. Minimum of ${minRemainingSwatches} swatches required.`);
       return;
     }
     
-    // Update the swatch count
+    // Update the swatch count, and move the locks after the removed swatch along with their swatches
     const newCount = swatchCount - 1;
+    const newLocked = locked.filter((_, i) => i !== index);
+    const newOverrides = overrides.filter((_, i) => i !== index);
+    const remainingOrder = order && removeFromOrder(order, index);
+    const newOrder = remainingOrder && !isIdentityOrder(remainingOrder) ? remainingOrder : null;
     setColorState(prev => ({
       ...prev,
       swatchCount: newCount
     }));
+    setLocked(newLocked);
+    setOverrides(newOverrides);
+    setOrder(newOrder);
+
+    // Explicit palettes (from an image, with inserted swatches) just lose the swatch, the rest stay as they are
+    if (paletteIsImported) {
+      const remaining = generatedPalette.filter((_, i) => i !== index);
+      const colors = setPaletteColors(remaining, paletteOptions, remaining.map((_, i) => i));
+      setImportedPalette(colors);
+      setCopiedStates(new Array(colors.length).fill(false));
+      updateUrlHash(baseColor, paletteType, seed, { colors, locked: newLocked, overrides: newOverrides, order: newOrder ?? undefined });
+      return;
+    }
 
     // Regenerate the palette
     if (isValidInput) {
-      generatePaletteWithType(inputColor, paletteType, newCount)
+      generatePaletteWithType(baseColor, paletteType, newCount, generationSpace, { ...paletteOptions, locked: newLocked })
         .then(colors => {
           setCopiedStates(new Array(colors.length).fill(false));
-          updateUrlHash(inputColor, paletteType);
+          updateUrlHash(baseColor, paletteType, seed, {
+            settings: { swatchCount: newCount },
+            locked: newLocked,
+            overrides: newOverrides,
+            order: newOrder ?? undefined
+          });
         })
         .catch((error) => {
           console.error("Failed to regenerate palette after removing swatch:", error);
           toast.error("Failed to update palette");
         });
     }
-  }, [generatePaletteWithType, inputColor, isValidInput, paletteType, swatchCount, updateUrlHash]);
+  }, [baseColor, generatePaletteWithType, generatedPalette, generationSpace, paletteOptions, isValidInput, locked, minRemainingSwatches, order, overrides, paletteIsImported, paletteType, seed, setOverrides, setPaletteColors, swatchCount, updateUrlHash]);
+
+  /**
+   * Locks a swatch's current color in place, or unlocks it
+  **/
+  const handleToggleLock = useCallback((index: number) => {
+    const newLocked = Array.from({ length: Math.max(locked.length, index + 1) }, (_, i) => locked[i] ?? null);
+    newLocked[index] = newLocked[index] ? null : palette[index];
+    setLocked(newLocked);
+    updateUrlHash(baseColor, paletteType, seed, { colors: paletteIsImported ? generatedPalette : undefined, locked: newLocked });
+  }, [baseColor, generatedPalette, locked, palette, paletteIsImported, paletteType, seed, updateUrlHash]);
 
   /**
-   * Handles adding a swatch after a specific index or at the end
-   * If index is provided, adds between swatches
-   * If index is not provided, adds at the end
+   * Sets a custom swatch order, or goes back to the generated order with null.
+   * Reordering replaces the URL hash so the back button skips past it.
+  **/
+  const handleReorder = useCallback((newOrder: number[] | null) => {
+    const customOrder = newOrder && !isIdentityOrder(newOrder) ? newOrder : null;
+    setOrder(customOrder);
+    updateUrlHash(baseColor, paletteType, seed, {
+      colors: paletteIsImported ? generatedPalette : undefined,
+      order: customOrder ?? undefined
+    }, true);
+  }, [baseColor, generatedPalette, paletteIsImported, paletteType, seed, updateUrlHash]);
+
+  /**
+   * Sorts the swatches by lightness, hue, chroma or contrast
+  **/
+  const handleSort = useCallback((key: SwatchSortKey) => {
+    handleReorder(sortOrder(palette, key));
+  }, [handleReorder, palette]);
+
+  /**
+   * Handles adding a swatch after a specific display position or at the end
+   * If a position is provided, inserts the OKLab midpoint of the swatches on
+   * either side there and keeps every other color as it is
+   * If no position is provided, adds at the end by regenerating
   **/
   const handleAddSwatch = useCallback((afterIndex?: number) => {
-    if (swatchCount >= 10) {
-      toast.error("Cannot add swatch. Maximum of 10 swatches allowed.");
+    if (Math.max(swatchCount, palette.length) >= swatchLimits.max) {
+      toast.error(`Cannot add swatch. Maximum of ${swatchLimits.max} swatches allowed.`);
+      return;
+    }
+
+    if (afterIndex !== undefined) {
+      // The new color is appended to the palette and placed through the order,
+      // so locks and edits keep their indices; the palette becomes an explicit list.
+      // Only the new color is held to the contrast target, the others stay as they are
+      const midpoint = interpolateColor(orderedPalette[afterIndex], orderedPalette[afterIndex + 1], 0.5, 'oklab');
+      const colors = setPaletteColors([...generatedPalette, midpoint], paletteOptions, generatedPalette.map((_, i) => i));
+      const newOrder = [...orderedIndices.slice(0, afterIndex + 1), generatedPalette.length, ...orderedIndices.slice(afterIndex + 1)];
+
+      setColorState(prev => ({
+        ...prev,
+        swatchCount: colors.length
+      }));
+      setImportedPalette(colors);
+      setOrder(newOrder);
+      setCopiedStates(new Array(colors.length).fill(false));
+      updateUrlHash(baseColor, paletteType, seed, { colors, order: newOrder });
+      toast.success("Added swatch between colors");
       return;
     }
     
@@ -228,21 +558,17 @@ export default function Home() {
 
     // Regenerate the palette
     if (isValidInput) {
-      generatePaletteWithType(inputColor, paletteType, newCount)
+      generatePaletteWithType(baseColor, paletteType, newCount, generationSpace, paletteOptions)
         .then(colors => {
           setCopiedStates(new Array(colors.length).fill(false));
-          updateUrlHash(inputColor, paletteType);
-          
-          if (afterIndex !== undefined) {
-            toast.success("Added swatch between colors");
-          }
+          updateUrlHash(baseColor, paletteType, seed, { settings: { swatchCount: newCount } });
         })
         .catch((error) => {
           console.error("Failed to regenerate palette after adding swatch:", error);
           toast.error("Failed to update palette");
         });
     }
-  }, [generatePaletteWithType, inputColor, isValidInput, paletteType, swatchCount, updateUrlHash]);
+  }, [baseColor, generatePaletteWithType, generatedPalette, generationSpace, paletteOptions, isValidInput, orderedIndices, orderedPalette, palette.length, paletteType, seed, setPaletteColors, swatchCount, swatchLimits.max, updateUrlHash]);
 
   /**
    * Handles changes to the swatch count
@@ -254,17 +580,17 @@ export default function Home() {
     }));
     // Generate a new palette immediately with the new swatch count
     if (isValidInput) {
-      generatePaletteWithType(inputColor, paletteType, count)
+      generatePaletteWithType(baseColor, paletteType, count, generationSpace, paletteOptions)
         .then(colors => {
           setCopiedStates(new Array(colors.length).fill(false));
-          updateUrlHash(inputColor, paletteType);
+          updateUrlHash(baseColor, paletteType, seed, { settings: { swatchCount: count } });
         })
         .catch((error) => {
           console.error("Failed to regenerate palette with new swatch count:", error);
           toast.error("Failed to adjust palette size");
         });
     }
-  }, [generatePaletteWithType, inputColor, isValidInput, paletteType, updateUrlHash]);
+  }, [baseColor, generatePaletteWithType, generationSpace, paletteOptions, isValidInput, paletteType, seed, updateUrlHash]);
 
   /**
    * Debounced palette generation
@@ -272,52 +598,274 @@ export default function Home() {
   const debouncedGeneratePalette = useMemo(() => debounce(
     async (color: string, type: PaletteType) => {
       try {
-        const colors = await generatePaletteWithType(color, type, swatchCount);
+        const colors = await generatePaletteWithType(color, type, swatchCount, generationSpace, paletteOptions);
         setCopiedStates(new Array(colors.length).fill(false));
-        updateUrlHash(color, type);
+        updateUrlHash(color, type, seed);
       } catch (error) {
         toast.error("Failed to generate palette. Please check your input color.");
       }
     }, 
     300
-  ), [generatePaletteWithType, updateUrlHash, swatchCount]);
+  ), [generatePaletteWithType, generationSpace, paletteOptions, updateUrlHash, seed, swatchCount]);
 
   /**
    * Triggers the palette generation process
   **/
   const handleGeneratePalette = useCallback(() => {
     if (isValidInput) {
-      debouncedGeneratePalette(inputColor, paletteType);
+      debouncedGeneratePalette(baseColor, paletteType);
     } else {
-      toast.error("Please enter a valid hex color code");
+      toast.error(inputError ?? "Please enter a valid color");
     }
-  }, [debouncedGeneratePalette, inputColor, isValidInput, paletteType]);
+  }, [baseColor, debouncedGeneratePalette, inputError, isValidInput, paletteType]);
 
   /**
-   * Generates a random hex color and triggers palette generation
+   * Draws a new seed, derives a random base color from it and triggers palette generation
   **/
   const handleRandomColor = useCallback(() => {
-    const randomHex = Array.from(
-      { length: 6 },
-      () => Math.floor(Math.random() * 16).toString(16)
-    ).join('');
-    const newColor = "#" + randomHex;
+    const newSeed = createSeed();
+    const newColor = seededHexColor(newSeed);
 
     setColorState(prev => ({
       ...prev,
       inputColor: newColor,
-      isValidInput: true
+      baseColor: newColor,
+      isValidInput: true,
+      inputError: null,
+      seed: newSeed
     }));
 
-    generatePaletteWithType(newColor, paletteType, swatchCount)
+    generatePaletteWithType(newColor, paletteType, swatchCount, generationSpace, paletteOptions)
       .then(colors => {
         setCopiedStates(new Array(colors.length).fill(false));
-        updateUrlHash(newColor, paletteType);
+        updateUrlHash(newColor, paletteType, newSeed);
       })
       .catch(() => {
         toast.error("Failed to generate palette with random color.");
       });
-  }, [generatePaletteWithType, paletteType, swatchCount, updateUrlHash]);
+  }, [generatePaletteWithType, generationSpace, paletteOptions, paletteType, swatchCount, updateUrlHash]);
+
+  /**
+   * Takes colors extracted from an image: either shows them as the palette, or
+   * uses the most prominent one as the base color for the current harmony.
+  **/
+  const handleImagePalette = useCallback((colors: string[], useAsBase: boolean) => {
+    const [prominent] = colors;
+
+    setColorState(prev => ({
+      ...prev,
+      inputColor: prominent,
+      baseColor: prominent,
+      isValidInput: true,
+      inputError: null,
+      seed: null,
+      swatchCount: useAsBase ? prev.swatchCount : colors.length
+    }));
+
+    if (useAsBase) {
+      generatePaletteWithType(prominent, paletteType, swatchCount, generationSpace, paletteOptions)
+        .then(generated => {
+          setCopiedStates(new Array(generated.length).fill(false));
+          updateUrlHash(prominent, paletteType);
+        })
+        .catch(() => {
+          toast.error("Failed to generate palette from the image color.");
+        });
+    } else {
+      // The image replaces every swatch, so earlier locks and edits no longer apply
+      setLocked([]);
+      setOverrides([]);
+      setOrder(null);
+      setImportedPalette(setPaletteColors(colors, paletteOptions));
+      setCopiedStates(new Array(colors.length).fill(false));
+      updateUrlHash(prominent, paletteType, null, { colors, locked: [], overrides: [], order: undefined });
+    }
+  }, [generatePaletteWithType, generationSpace, paletteOptions, paletteType, setOverrides, setPaletteColors, swatchCount, updateUrlHash]);
+
+  // Record every new palette, lock or edit; states brought back from the history match their entry and are skipped
+  useEffect(() => {
+    if (generatedPalette.length === 0) {
+      return;
+    }
+    const snapshot: PaletteSnapshot = {
+      baseColor,
+      paletteType,
+      swatchCount,
+      seed,
+      anchors,
+      locked,
+      overrides,
+      order,
+      colors: paletteIsImported ? generatedPalette : null,
+      settings: snapshotSettings,
+      harmony: paletteType === CUSTOM_PALETTE_TYPE ? customHarmony : null
+    };
+    if (currentHistoryEntry && isSameSnapshot(currentHistoryEntry.state, snapshot)) {
+      return;
+    }
+    const change = describePaletteChange(currentHistoryEntry?.state, snapshot);
+    recordHistory(snapshot, change.label, change.continuous);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [generatedPalette, locked, order, overrides]);
+
+  /**
+   * Brings back a palette from the history: generated palettes are rebuilt from
+   * their inputs and the settings they were generated with, imported ones shown
+   * from their colors as they were, without enforcing contrast on them again.
+  **/
+  const restoreSnapshot = useCallback((snapshot: PaletteSnapshot) => {
+    const settings = { ...snapshot.settings, swatchCount: snapshot.swatchCount };
+    const snapshotOptions = withSettings(paletteOptions, settings);
+    setColorState(prev => ({
+      ...prev,
+      ...settings,
+      inputColor: snapshot.baseColor,
+      baseColor: snapshot.baseColor,
+      isValidInput: true,
+      inputError: null,
+      paletteType: snapshot.paletteType,
+      seed: snapshot.seed
+    }));
+    setAnchors(snapshot.anchors);
+    setLocked(snapshot.locked);
+    setOverrides(snapshot.overrides);
+    setOrder(snapshot.order);
+    if (snapshot.harmony) {
+      handleCustomHarmonyChange(snapshot.harmony);
+    }
+
+    const shared = {
+      settings,
+      harmony: snapshot.harmony ?? undefined,
+      anchors: snapshot.colors ? undefined : snapshot.anchors,
+      locked: snapshot.locked,
+      overrides: snapshot.overrides,
+      order: snapshot.order ?? undefined,
+      colors: snapshot.colors ?? undefined
+    };
+
+    if (snapshot.colors) {
+      setImportedPalette(setPaletteColors(snapshot.colors));
+      setCopiedStates(new Array(snapshot.colors.length).fill(false));
+      updateUrlHash(snapshot.baseColor, snapshot.paletteType, snapshot.seed, shared);
+      return;
+    }
+
+    setImportedPalette(null);
+    const options = {
+      ...snapshotOptions,
+      harmony: snapshot.harmony ?? undefined,
+      anchors: snapshot.anchors.length > 0 ? snapshot.anchors : undefined,
+      locked: snapshot.locked.some(Boolean) ? snapshot.locked : undefined
+    };
+    generatePaletteWithType(snapshot.baseColor, snapshot.paletteType, snapshot.swatchCount, settings.generationSpace, options)
+      .then(colors => {
+        setCopiedStates(new Array(colors.length).fill(false));
+        updateUrlHash(snapshot.baseColor, snapshot.paletteType, snapshot.seed, shared);
+      })
+      .catch(() => {
+        toast.error("Failed to restore palette");
+      });
+  }, [generatePaletteWithType, handleCustomHarmonyChange, paletteOptions, setOverrides, setPaletteColors, updateUrlHash]);
+
+  /**
+   * Moves to another entry of the history and shows its palette
+  **/
+  const { jumpTo, index: historyIndex } = history;
+  const handleHistoryJump = useCallback((index: number) => {
+    const entry = jumpTo(index);
+    if (entry) {
+      restoreSnapshot(entry.state);
+    }
+  }, [jumpTo, restoreSnapshot]);
+
+  const handleUndo = useCallback(() => handleHistoryJump(historyIndex - 1), [handleHistoryJump, historyIndex]);
+  const handleRedo = useCallback(() => handleHistoryJump(historyIndex + 1), [handleHistoryJump, historyIndex]);
+
+  // Ctrl/Cmd+Z to undo and Ctrl/Cmd+Shift+Z to redo, except while typing where the field handles them
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.metaKey || e.ctrlKey) || e.key.toLowerCase() !== 'z') {
+        return;
+      }
+      if (e.target instanceof HTMLElement && e.target.closest('input:not([type="range"]), textarea, [contenteditable="true"]')) {
+        return;
+      }
+      e.preventDefault();
+      if (e.shiftKey) {
+        handleRedo();
+      } else {
+        handleUndo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleRedo, handleUndo]);
+
+  // Palettes saved on this device
+  const library = usePaletteLibrary();
+  const { save: saveToLibrary, update: updateInLibrary, duplicate: duplicateInLibrary, remove: removeFromLibrary } = library;
+
+  /**
+   * Saves the palette to the library. Its generated colors are saved with it,
+   * so it loads as it is now whatever the generation options are by then.
+  **/
+  const handleSavePalette = useCallback(async (name: string, tags: string[]) => {
+    const state: PaletteSnapshot = {
+      baseColor,
+      paletteType,
+      swatchCount,
+      seed,
+      anchors,
+      locked,
+      overrides,
+      order,
+      colors: generatedPalette,
+      settings: snapshotSettings,
+      harmony: paletteType === CUSTOM_PALETTE_TYPE ? customHarmony : null
+    };
+    await saveToLibrary(createSavedPalette(name, tags, orderedPalette, state));
+    toast.success(`Saved "${name}" to the library`);
+  }, [anchors, baseColor, customHarmony, generatedPalette, locked, order, orderedPalette, overrides, paletteType, saveToLibrary, seed, snapshotSettings, swatchCount]);
+
+  /**
+   * Brings a saved palette back into the editor
+  **/
+  const handleLoadSavedPalette = useCallback((saved: SavedPalette) => {
+    restoreSnapshot(saved.state);
+    toast.success(`Loaded "${saved.name}"`);
+  }, [restoreSnapshot]);
+
+  const handleRenameSavedPalette = useCallback((saved: SavedPalette, name: string) => {
+    updateInLibrary(saved, { name }).catch(() => toast.error("Failed to rename the palette"));
+  }, [updateInLibrary]);
+
+  const handleRetagSavedPalette = useCallback((saved: SavedPalette, tags: string[]) => {
+    updateInLibrary(saved, { tags }).catch(() => toast.error("Failed to change the palette's tags"));
+  }, [updateInLibrary]);
+
+  const handleDuplicateSavedPalette = useCallback((saved: SavedPalette) => {
+    duplicateInLibrary(saved)
+      .then(copy => toast.success(`Saved a copy as "${copy.name}"`))
+      .catch(() => toast.error("Failed to duplicate the palette"));
+  }, [duplicateInLibrary]);
+
+  /**
+   * Deletes a saved palette, with a moment to take it back
+  **/
+  const handleDeleteSavedPalette = useCallback((saved: SavedPalette) => {
+    removeFromLibrary(saved.id)
+      .then(() => toast.success(`Deleted "${saved.name}"`, {
+        action: {
+          label: 'Undo',
+          onClick: () => {
+            saveToLibrary(saved).catch(() => toast.error("Failed to restore the palette"));
+          }
+        }
+      }))
+      .catch(() => toast.error("Failed to delete the palette"));
+  }, [removeFromLibrary, saveToLibrary]);
 
   /**
    * Copies the given color to the clipboard and provides user feedback.
@@ -347,9 +895,36 @@ export default function Home() {
     });
   }, [getColorToCopy]);
 
+  /**
+   * Copies a swatch's color name to the clipboard.
+  **/
+  const copyNameToClipboard = useCallback((name: string) => {
+    navigator.clipboard.writeText(name)
+      .then(() => {
+        toast.success(`Copied "${name}" to clipboard!`);
+      })
+      .catch(() => {
+        toast.error("Failed to copy to clipboard");
+      });
+  }, []);
+
   // Memoize the share URL handler
   const handleShareClick = useCallback(() => {
-    const url = `${window.location.origin}${window.location.pathname}#${inputColor.substring(1)}/${paletteType}`;
+    const harmony = paletteType === CUSTOM_PALETTE_TYPE ? customHarmony : undefined;
+    const colors = paletteIsImported ? generatedPalette : undefined;
+    const sharedAnchors = paletteIsImported ? undefined : anchors;
+    const url = `${window.location.origin}${window.location.pathname}#${formatShareHash({
+      color: baseColor,
+      type: paletteType,
+      seed,
+      settings: generationSettings,
+      harmony,
+      anchors: sharedAnchors,
+      locked,
+      overrides,
+      order: order ?? undefined,
+      colors
+    })}`;
     navigator.clipboard.writeText(url)
       .then(() => {
         toast.success("Share URL copied to clipboard!");
@@ -357,12 +932,23 @@ export default function Home() {
       .catch(() => {
         toast.error("Failed to copy share URL");
       });
-  }, [inputColor, paletteType]);
+  }, [anchors, baseColor, customHarmony, generatedPalette, generationSettings, locked, order, overrides, paletteIsImported, paletteType, seed]);
+
+  // Colors as displayed in the grid, simulated when a vision deficiency is selected
+  const displayedColors = useMemo(() => {
+    return cvdSimulation ? simulatePaletteCvd(palette, cvdSimulation) : palette;
+  }, [palette, cvdSimulation]);
+
+  // Warnings for swatches that are too close to another one, under any vision, by display position
+  const swatchWarnings = useMemo(() => {
+    const { bySwatch } = analyzeDistinguishability(orderedPalette, distinctThreshold);
+    return bySwatch.map((pairs, position) => describeSwatchWarnings(position, pairs));
+  }, [orderedPalette, distinctThreshold]);
 
   // Precompute formatted color values for the palette
   const formattedColorValues = useMemo(() => {
     return palette.map(color => formatColor(color, colorFormat));
-  }, [palette, colorFormat, formatColor]);
+  }, [palette, colorFormat]);
 
   return (
     <main className="min-h-screen py-10 px-4 flex flex-col items-center justify-center">
@@ -382,63 +968,210 @@ export default function Home() {
         {/* Input controls section */}
         <PaletteControls 
           inputColor={inputColor}
+          baseColor={baseColor}
           isValidInput={isValidInput}
+          inputError={inputError}
           paletteType={paletteType}
           colorFormat={colorFormat}
+          generationSpace={generationSpace}
+          alphaMode={alphaMode}
+          contrastEnforcement={contrastEnforcement}
+          variation={variation}
+          minDistance={minDistance}
+          seed={seed}
           loading={loading}
           showShareButton={palette.length > 0}
           swatchCount={swatchCount}
+          minSwatches={minSwatches}
+          maxSwatches={swatchLimits.max}
           handleColorWheelChange={handleColorWheelChange}
           handleInputChange={handleInputChange}
           handlePaletteTypeChange={handlePaletteTypeChange}
+          handleGenerationSpaceChange={handleGenerationSpaceChange}
+          handleAlphaModeChange={handleAlphaModeChange}
+          handleContrastEnforcementChange={handleContrastEnforcementChange}
+          handleVariationChange={handleVariationChange}
+          handleMinDistanceChange={handleMinDistanceChange}
           handleGeneratePalette={handleGeneratePalette}
           handleRandomColor={handleRandomColor}
           handleShareClick={handleShareClick}
           setColorFormat={setColorFormat}
           handleSwatchCountChange={handleSwatchCountChange}
+          handleImagePalette={handleImagePalette}
+          handleSavePalette={handleSavePalette}
           ColorPicker={ColorPicker}
         />
 
+        {/* Anchor colors the palette is built around, applied on the next generate */}
+        <div className="mb-8">
+          <AnchorColors baseColor={baseColor} seed={seed} anchors={anchors} onChange={handleAnchorsChange} />
+        </div>
+
+        {/* Hue offsets for the custom harmony, applied on the next generate */}
+        {paletteType === CUSTOM_PALETTE_TYPE && (
+          <div className="mb-8">
+            <HarmonyBuilder
+              stops={customHarmony}
+              onChange={handleCustomHarmonyChange}
+              baseColor={baseColor}
+              generationSpace={generationSpace}
+            />
+          </div>
+        )}
+
         {/* Palette display section - only shown if a palette exists */}
         {palette.length > 0 && (
           <div className="space-y-8">
-            {/* Fixed grid layout for color swatches */}
-            <div className="grid grid-cols-5 gap-1 relative">
-              {palette.map((color, index) => (
-                <React.Fragment key={color + index}>
-                  <ColorSwatch
-                    color={color}
-                    textColor={textColors[index]}
-                    isCopied={copiedStates[index]}
-                    onClick={() => copyToClipboard(color, index)}
-                    colorFormatted={formattedColorValues[index]}
-                    onRemove={() => handleRemoveSwatch(index)}
-                    canRemove={palette.length > 3}
-                  />
-                </React.Fragment>
-              ))}
-              
-              {/* Add swatch button at the end if we have room for more swatches */}
-              {palette.length < 10 && (
-                <AddSwatchButton 
-                  position="end"
-                  onClick={() => handleAddSwatch()}
+            <div className="space-y-2">
+              {/* Distinguishability threshold and color vision deficiency simulation for the grid */}
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <DistinctnessThreshold
+                  threshold={distinctThreshold}
+                  onChange={setDistinctThreshold}
+                  warningCount={swatchWarnings.filter(warnings => warnings.length > 0).length}
                 />
-              )}
-              
-              {/* Fill remaining grid spaces with empty cells to maintain layout */}
-              {[...Array(Math.max(0, 9 - palette.length - (palette.length < 9 ? 1 : 0)))].map((_, index) => (
-                <div key={`empty-${index}`} className="aspect-square" />
-              ))}
+                <div className="ml-auto flex items-center gap-2">
+                  <SwatchLayoutMenu
+                    layout={swatchLayout}
+                    limits={swatchLimits}
+                    onLayoutChange={handleSwatchLayoutChange}
+                    onLimitsChange={handleSwatchLimitsChange}
+                  />
+                  <SwatchSortMenu customOrder={order !== null} onSort={handleSort} onReset={() => handleReorder(null)} />
+                  <HistoryControls
+                    entries={history.entries}
+                    index={history.index}
+                    canUndo={history.canUndo}
+                    canRedo={history.canRedo}
+                    onUndo={handleUndo}
+                    onRedo={handleRedo}
+                    onJump={handleHistoryJump}
+                  />
+
+                  {/* Switch between CSS names and the extended name list */}
+                  <Button
+                    onClick={() => setNameSource(nameSource === 'css' ? 'extended' : 'css')}
+                    size="sm"
+                    variant="outline"
+                    className="h-8 px-2 text-xs"
+                    title={nameSource === 'css'
+                      ? "Naming swatches with CSS colors. Switch to the extended list"
+                      : "Naming swatches with the extended list. Switch to CSS colors"}
+                  >
+                    {nameSource === 'css' ? 'CSS names' : 'Extended names'}
+                  </Button>
+                  <CvdControls simulation={cvdSimulation} onChange={setCvdSimulation} />
+                </div>
+              </div>
+
+              {/* Swatches in a wrapping grid, a strip or a list, reorderable by dragging or from the keyboard */}
+              <SortableSwatches
+                className={
+                  swatchLayout === 'grid' ? "grid grid-cols-[repeat(auto-fill,minmax(7.5rem,1fr))] gap-1 relative"
+                  : swatchLayout === 'strip' ? "flex h-40 gap-1 overflow-x-auto relative"
+                  : "space-y-1"
+                }
+                cellClassName={swatchLayout === 'strip' ? "min-w-10 flex-1" : swatchLayout === 'list' ? "pb-1" : undefined}
+                windowed={swatchLayout === 'list' ? { itemHeight: LIST_ROW_HEIGHT, maxHeight: LIST_MAX_HEIGHT } : undefined}
+                order={orderedIndices}
+                onReorder={handleReorder}
+                describe={(index) => `Swatch ${formattedColorValues[index]}${colorNames[index] ? ` (${colorNames[index]!.name})` : ''}`}
+                renderSwatch={(index, position) => {
+                  const color = palette[index];
+                  return (
+                    <>
+                      {/* Insert button in the gap before every swatch but the first */}
+                      {position > 0 && palette.length < swatchLimits.max && swatchLayout !== 'list' && (
+                        <AddSwatchButton
+                          position="between"
+                          className="-left-2.5 top-0"
+                          label="Insert the midpoint of these two colors"
+                          onClick={() => handleAddSwatch(position - 1)}
+                        />
+                      )}
+                      <ColorSwatch
+                        color={displayedColors[index]}
+                        textColor={textColors[index]}
+                        isCopied={copiedStates[index]}
+                        onClick={() => copyToClipboard(color, index)}
+                        colorFormatted={formattedColorValues[index]}
+                        gamutMapped={gamutMapped[index]}
+                        contrastAdjustment={overrides[index] ? undefined : adjustments[index]}
+                        warnings={swatchWarnings[position]}
+                        colorName={colorNames[index]}
+                        onCopyName={copyNameToClipboard}
+                        locked={!!locked[index]}
+                        onToggleLock={() => handleToggleLock(index)}
+                        editColor={color}
+                        overridden={!!overrides[index]}
+                        onOverride={(edited: string) => setOverride(index, edited)}
+                        onResetOverride={() => setOverride(index, null)}
+                        onRemove={() => handleRemoveSwatch(index)}
+                        canRemove={palette.length > minRemainingSwatches}
+                        layout={swatchLayout}
+                      />
+                    </>
+                  );
+                }}
+              >
+                {/* Add swatch button at the end if we have room for more swatches */}
+                {palette.length < swatchLimits.max && (
+                  <AddSwatchButton 
+                    position="end"
+                    square={swatchLayout === 'grid'}
+                    className={swatchLayout === 'strip' ? "w-10 shrink-0" : swatchLayout === 'list' ? "h-11 w-full" : undefined}
+                    onClick={() => handleAddSwatch()}
+                  />
+                )}
+              </SortableSwatches>
             </div>
 
+            {/* Summary of swatches moved to meet the contrast target */}
+            {contrastEnforcement && adjustments.length > 0 && (
+              <p className="text-xs text-muted-foreground text-center">
+                {(() => {
+                  const moved = adjustments.filter(adjustment => adjustment.deltaL !== 0);
+                  const unmet = moved.filter(adjustment => !adjustment.met).length;
+                  // Locked swatches (and ones kept while inserting or removing) aren't moved, whether or not they meet it
+                  const keptBelow = adjustments.filter(adjustment => adjustment.deltaL === 0 && !adjustment.met).length;
+                  const target = describeContrastTarget(contrastEnforcement.target);
+                  if (moved.length === 0) {
+                    return keptBelow > 0
+                      ? `${keptBelow} of ${adjustments.length} swatches kept as they are don't meet ${target}`
+                      : `All swatches already meet ${target}`;
+                  }
+                  const largest = Math.max(...moved.map(adjustment => Math.abs(adjustment.deltaL)));
+                  return `Adjusted ${moved.length} of ${adjustments.length} swatches to meet ${target} (largest lightness change ${(largest * 100).toFixed(1)}%)`
+                    + (unmet > 0 ? `, ${unmet} could not reach it` : '')
+                    + (keptBelow > 0 ? `, ${keptBelow} kept as they are don't meet it` : '');
+                })()}
+              </p>
+            )}
+
             {/* Helper text */}
             <p className="text-xs text-muted-foreground text-center">
               Click on a color to copy its <code>{colorFormat.toUpperCase()}</code> value
             </p>
+
+            {/* Gradients built from the palette */}
+            <GradientPanel colors={orderedPalette} />
           </div>
         )}
 
+        {/* Palettes saved on this device */}
+        <div className="mt-8">
+          <PaletteLibrary
+            palettes={library.palettes}
+            loading={library.loading}
+            error={library.error}
+            onLoad={handleLoadSavedPalette}
+            onRename={handleRenameSavedPalette}
+            onRetag={handleRetagSavedPalette}
+            onDuplicate={handleDuplicateSavedPalette}
+            onDelete={handleDeleteSavedPalette}
+          />
+        </div>
+
         {/* Footer section */}
         <Footer />
       </div>
@@ -5,24 +5,30 @@ interface AddSwatchButtonProps {
   onClick: () => void;
   className?: string;
   position?: 'between' | 'end';
+  label?: string;
+  // End buttons are square tiles unless the caller sizes them through `className`
+  square?: boolean;
 }
 
 export const AddSwatchButton = React.memo(({
   onClick,
   className = '',
-  position = 'between'
+  position = 'between',
+  label = 'Add color swatch',
+  square = true
 }: AddSwatchButtonProps) => {
   return (
     <button
       className={`
         group relative flex items-center justify-center 
         ${position === 'between' 
-          ? 'absolute z-10 h-full w-4 opacity-0 hover:opacity-100 transition-opacity' 
-          : 'aspect-square w-full border-2 border-dashed border-border bg-background/50 transition-all hover:bg-background/80'}
+          ? 'absolute z-10 h-full w-4 opacity-0 hover:opacity-100 focus-visible:opacity-100 transition-opacity' 
+          : `${square ? 'aspect-square w-full' : ''} border-2 border-dashed border-border bg-background/50 transition-all hover:bg-background/80`}
         ${className}
       `}
       onClick={onClick}
-      aria-label="Add color swatch"
+      aria-label={label}
+      title={position === 'between' ? label : undefined}
     >
       <div className={`
         flex items-center justify-center 
@@ -0,0 +1,73 @@
+import React from 'react';
+import { Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import ColorPicker from "@/components/ui/color-picker";
+import { MAX_ANCHORS, seededAnchorColor, withAlpha } from "@/lib/colors";
+import { withCheckerboard } from "@/lib/utils";
+
+interface AnchorColorsProps {
+  baseColor: string;
+  // Seed new anchors are drawn from, null when the base color was picked by hand
+  seed: number | null;
+  anchors: string[];
+  onChange: (anchors: string[]) => void;
+}
+
+/**
+ * Editor for the colors a palette is built around besides the base color.
+ * Anchors are kept unchanged in the palette, so they are opaque; the palette's
+ * alpha still comes from the base color. New anchors are drawn from the seed,
+ * or from the base color without one, so the same palette gets the same anchors.
+**/
+export const AnchorColors = React.memo(({ baseColor, seed, anchors, onChange }: AnchorColorsProps) => {
+  const updateAnchor = (index: number, color: string) => {
+    onChange(anchors.map((anchor, i) => i === index ? withAlpha(color, 1) : anchor));
+  };
+
+  return (
+    <div className="rounded-md border p-3 space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-medium">Anchors</span>
+        <Button
+          onClick={() => onChange([...anchors, seededAnchorColor(seed ?? parseInt(baseColor.substring(1, 7), 16), anchors.length)])}
+          disabled={anchors.length >= MAX_ANCHORS - 1}
+          size="sm"
+          variant="ghost"
+          className="h-7 px-2 text-xs"
+        >
+          <Plus className="size-3.5" /> Anchor
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        {/* The base color is always the first anchor */}
+        <div
+          className="size-8 rounded-full border border-border"
+          style={{ background: withCheckerboard(baseColor, 8) }}
+          title="Base color"
+        />
+
+        {anchors.map((anchor, index) => (
+          <div key={index} className="flex items-center">
+            <ColorPicker value={anchor} onChange={(color: string) => updateAnchor(index, color)} />
+            <Button
+              onClick={() => onChange(anchors.filter((_, i) => i !== index))}
+              size="icon"
+              variant="ghost"
+              className="size-6"
+              aria-label="Remove anchor"
+            >
+              <X className="size-3" />
+            </Button>
+          </div>
+        ))}
+
+        {anchors.length === 0 && (
+          <span className="text-xs text-muted-foreground">
+            Add colors to keep fixed alongside the base, the rest is filled in between them
+          </span>
+        )}
+      </div>
+    </div>
+  );
+});
@@ -1,9 +1,9 @@
 import React, { useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
-import { cn } from "@/lib/utils";
+import { cn, checkerboard, withCheckerboard } from "@/lib/utils";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { hsvaToHex, hexToHsva } from '@uiw/color-convert';
-import { isValidHexColor, standardizeHexColor } from "@/lib/colors";
+import { getAlpha, parseColor, withAlpha } from "@/lib/colors";
 import LazyColorWheel from "./lazy-wheel";
 import { Input } from "./input";
 import { Suspense } from "react";
@@ -19,12 +19,16 @@ interface ColorPickerProps {
 
 /**
  * A memoized color picker component that combines a color preview button with a popover
- * containing a color wheel and hex input for color selection.
+ * containing a color wheel, an alpha slider and a text input that accepts any CSS color syntax.
 **/
 const ColorPicker = React.memo(function ColorPicker({ value, onChange, className }: ColorPickerProps) {
   // State for the color wheel, using HSVa (Hue, Saturation, Value, Alpha)
   const [hsva, setHsva] = useState(() => hexToHsva(value || '#ffffff'));
 
+  // Text typed into the input, kept separately so partial values can be edited
+  const [text, setText] = useState(value);
+  const [error, setError] = useState<string | null>(null);
+
   // Update internal HSVa state if the external hex value changes
   useEffect(() => {
     if (value) {
@@ -37,6 +41,15 @@ const ColorPicker = React.memo(function ColorPicker({ value, onChange, className
     }
   }, [value]);
 
+  // Reflect external changes in the text field unless it already describes that color
+  useEffect(() => {
+    setText(current => {
+      const parsed = parseColor(current);
+      return parsed.valid && parsed.hex === value ? current : value;
+    });
+    setError(null);
+  }, [value]);
+
   return (
     <Popover>
       <PopoverTrigger asChild>
@@ -46,7 +59,7 @@ const ColorPicker = React.memo(function ColorPicker({ value, onChange, className
             "w-8 h-8 p-0 rounded-full border border-border relative overflow-hidden transition-all",
             className
           )}
-          style={{ backgroundColor: value }}
+          style={{ background: withCheckerboard(value, 8) }}
           aria-label="Pick a color"
         >
           <span className="sr-only">Choose color</span>
@@ -59,27 +72,59 @@ const ColorPicker = React.memo(function ColorPicker({ value, onChange, className
             height={160}
             color={hsva}
             onChange={(color) => {
-              setHsva(color.hsva);
-              onChange(hsvaToHex(color.hsva));
+              // The wheel only moves hue and saturation, so keep the current alpha
+              const next = { ...color.hsva, a: hsva.a };
+              setHsva(next);
+              onChange(withAlpha(hsvaToHex(next), next.a));
             }}
           />
         </Suspense>
+        <div className="flex items-center gap-2 mt-3">
+          <input
+            type="range"
+            min={0}
+            max={100}
+            value={Math.round(getAlpha(value) * 100)}
+            onChange={(e) => {
+              const alpha = Number(e.target.value) / 100;
+              setHsva(prev => ({ ...prev, a: alpha }));
+              onChange(withAlpha(value, alpha));
+            }}
+            className="h-2 flex-grow cursor-pointer appearance-none rounded-full accent-foreground"
+            style={{
+              background: `linear-gradient(to right, ${withAlpha(value, 0)}, ${withAlpha(value, 1)}), ${checkerboard(8)}`
+            }}
+            aria-label="Alpha"
+          />
+          <span className="w-9 text-right font-mono text-xs text-muted-foreground">
+            {Math.round(getAlpha(value) * 100)}%
+          </span>
+        </div>
         <div className="flex items-center gap-2 mt-3">
           <div
             className="w-6 h-6 rounded-full border"
-            style={{ backgroundColor: value }}
+            style={{ background: withCheckerboard(value, 6) }}
           />
           <Input
-            value={value}
-            className="h-8 font-mono text-xs"
+            value={text}
+            className={cn("h-8 font-mono text-xs", error && "border-red-500")}
+            aria-invalid={!!error}
             onChange={(e) => {
-              const newHex = e.target.value;
-              if (isValidHexColor(newHex)) {
-                onChange(standardizeHexColor(newHex));
+              const newText = e.target.value;
+              const result = parseColor(newText);
+              setText(newText);
+              setError(result.valid ? null : result.error);
+              if (result.valid) {
+                onChange(result.hex);
               }
             }}
           />
         </div>
+        {error && (
+          <p className="mt-1.5 text-[11px] leading-tight text-red-500" role="alert">
+            {error}
+          </p>
+        )}
       </PopoverContent>
     </Popover>
   );
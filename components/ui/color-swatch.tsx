@@ -1,5 +1,12 @@
-import React from 'react';
-import { Copy, Check, Minus } from "lucide-react";
+import React, { useMemo } from 'react';
+import { Copy, Check, Lock, LockOpen, Minus, Shrink, TriangleAlert } from "lucide-react";
+import { cn, withCheckerboard } from "@/lib/utils";
+import { ContrastAdjustment, getApcaContrast, getContrastRatio, getWcagLevel } from "@/lib/contrast";
+import { ColorNameMatch } from "@/lib/color-names";
+import { SwatchEditor } from "@/components/ui/swatch-editor";
+
+// Tiles in a wrapping grid, bars side by side, or rows with their details always shown
+export type SwatchLayout = 'grid' | 'strip' | 'list';
 
 interface ColorSwatchProps {
   color: string;
@@ -9,6 +16,19 @@ interface ColorSwatchProps {
   colorFormatted: string;
   onRemove?: () => void;
   canRemove?: boolean;
+  gamutMapped?: boolean;
+  contrastAdjustment?: ContrastAdjustment;
+  warnings?: string[];
+  colorName?: ColorNameMatch;
+  onCopyName?: (name: string) => void;
+  locked?: boolean;
+  onToggleLock?: () => void;
+  // The swatch's actual color for the editor, `color` may be a simulated one
+  editColor?: string;
+  overridden?: boolean;
+  onOverride?: (color: string) => void;
+  onResetOverride?: () => void;
+  layout?: SwatchLayout;
 }
 
 export const ColorSwatch = React.memo(({
@@ -18,8 +38,33 @@ export const ColorSwatch = React.memo(({
   onClick,
   colorFormatted,
   onRemove,
-  canRemove = true
+  canRemove = true,
+  gamutMapped = false,
+  contrastAdjustment,
+  warnings = [],
+  colorName,
+  onCopyName,
+  locked = false,
+  onToggleLock,
+  editColor,
+  overridden = false,
+  onOverride,
+  onResetOverride,
+  layout = 'grid'
 }: ColorSwatchProps) => {
+  // Contrast of the text color on this swatch, for accessibility review. The text
+  // color is picked for the actual color, so that is what it is measured against,
+  // also while `color` shows a simulation
+  const contrast = useMemo(() => {
+    const background = editColor ?? color;
+    const ratio = getContrastRatio(textColor, background);
+    return {
+      ratio,
+      level: getWcagLevel(ratio),
+      apca: getApcaContrast(textColor, background)
+    };
+  }, [color, editColor, textColor]);
+
   // Stop propagation so remove button doesn't trigger the copy action
   const handleRemoveClick = (e: React.MouseEvent) => {
     e.stopPropagation();
@@ -28,28 +73,133 @@ export const ColorSwatch = React.memo(({
     }
   };
 
+  // Stop propagation so locking doesn't also copy the color
+  const handleLockClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (onToggleLock) {
+      onToggleLock();
+    }
+  };
+
+  // Stop propagation so copying the name doesn't also copy the color
+  const handleNameClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (colorName && onCopyName) {
+      onCopyName(colorName.name);
+    }
+  };
+
   return (
     <div
-      className="group relative aspect-square w-full cursor-pointer transition-all duration-200"
-      style={{ backgroundColor: color }}
+      className={cn(
+        "group relative w-full cursor-pointer transition-all duration-200",
+        layout === 'grid' ? "aspect-square" : "h-full"
+      )}
+      style={{ background: withCheckerboard(color) }}
       onClick={onClick}
     >
-      {/* Minus button in top-right corner */}
-      {onRemove && canRemove && (
-        <button 
-          className="absolute top-1 right-1 opacity-0 group-hover:opacity-100 transition-opacity z-10 bg-black/30 hover:bg-black/50 rounded-full p-0.5"
-          onClick={handleRemoveClick}
-          aria-label="Remove swatch"
+      {/* Lock, edit and minus buttons in top-right corner; lock and edit stay visible while in use */}
+      <div className="absolute top-1 right-1 z-10 flex gap-0.5">
+        {onToggleLock && (
+          <button
+            className={cn(
+              "transition-opacity bg-black/30 hover:bg-black/50 rounded-full p-0.5",
+              !locked && "opacity-0 group-hover:opacity-100"
+            )}
+            onClick={handleLockClick}
+            aria-label={locked ? "Unlock swatch" : "Lock swatch"}
+            aria-pressed={locked}
+            title={locked ? "Locked: kept when the palette is regenerated" : "Lock this color"}
+          >
+            {locked ? (
+              <Lock className="size-3" style={{ color: textColor }} />
+            ) : (
+              <LockOpen className="size-3" style={{ color: textColor }} />
+            )}
+          </button>
+        )}
+        {onOverride && (
+          <SwatchEditor
+            color={editColor ?? color}
+            textColor={textColor}
+            overridden={overridden}
+            onChange={onOverride}
+            onReset={() => onResetOverride?.()}
+          />
+        )}
+        {onRemove && canRemove && (
+          <button 
+            className="opacity-0 group-hover:opacity-100 transition-opacity bg-black/30 hover:bg-black/50 rounded-full p-0.5"
+            onClick={handleRemoveClick}
+            aria-label="Remove swatch"
+          >
+            <Minus className="size-3" style={{ color: textColor }} />
+          </button>
+        )}
+      </div>
+
+      {/* Marker for colors that were pulled into sRGB by gamut mapping */}
+      {gamutMapped && (
+        <span
+          className="absolute bottom-1 left-1 z-10 rounded-full bg-black/30 p-0.5"
+          title="Gamut-mapped to fit sRGB"
+          aria-label="Gamut-mapped to fit sRGB"
         >
-          <Minus className="size-3" style={{ color: textColor }} />
-        </button>
+          <Shrink className="size-3" style={{ color: textColor }} />
+        </span>
       )}
 
-      {/* Overlay shown on hover, containing color code and copy icon */}
+      {/* Warning for swatches that are hard to tell apart from another one */}
+      {warnings.length > 0 && (
+        <span
+          className="absolute bottom-1 right-1 z-10 rounded-full bg-black/30 p-0.5"
+          title={warnings.join('\n')}
+          aria-label={warnings.join('. ')}
+        >
+          <TriangleAlert className="size-3" style={{ color: textColor }} />
+        </span>
+      )}
+
+      {/* Badge for swatches moved in lightness to meet the contrast target */}
+      {contrastAdjustment && (contrastAdjustment.deltaL !== 0 || !contrastAdjustment.met) && (
+        <span
+          className="absolute top-1 left-1 z-10 rounded-full bg-black/30 px-1.5 font-mono text-[10px] leading-4"
+          style={{ color: textColor }}
+          title={contrastAdjustment.met
+            ? `Adjusted from ${contrastAdjustment.original}`
+            : contrastAdjustment.deltaL === 0
+              ? 'Below the target, kept as it is'
+              : `Could not reach the target from ${contrastAdjustment.original}`}
+        >
+          {!contrastAdjustment.met && '! '}
+          L {contrastAdjustment.deltaL > 0 ? '+' : ''}{(contrastAdjustment.deltaL * 100).toFixed(1)}%
+        </span>
+      )}
+
+      {/* Overlay shown on hover (always in the list), containing color code and copy icon */}
       <div
-        className="absolute inset-0 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity bg-black/20"
+        className={cn(
+          "absolute inset-0 flex items-center transition-opacity",
+          layout === 'list'
+            ? "pl-7 pr-24"
+            : "justify-center opacity-0 group-hover:opacity-100 bg-black/20"
+        )}
       >
-        <div className="flex flex-col items-center justify-center gap-1">
+        <div className={cn(
+          "flex items-center",
+          layout === 'list' ? "min-w-0 flex-1 gap-4" : "flex-col justify-center gap-1"
+        )}>
+          {/* Nearest color name, copied on click */}
+          {colorName && (
+            <button
+              className="max-w-full truncate px-1 text-xs font-medium hover:underline"
+              style={{ color: textColor }}
+              onClick={handleNameClick}
+              title={`Copy name (ΔE00 ${colorName.deltaE.toFixed(1)} from ${colorName.hex})`}
+            >
+              {colorName.name}
+            </button>
+          )}
           {/* Display color in selected format */}
           <span
             className="font-mono text-xs tracking-wider text-center px-1"
@@ -57,6 +207,14 @@ export const ColorSwatch = React.memo(({
           >
             {colorFormatted}
           </span>
+          {/* WCAG ratio and level of the text color, APCA Lc on hover */}
+          <span
+            className="font-mono text-[10px] tracking-wide opacity-80"
+            style={{ color: textColor }}
+            title={`APCA Lc ${contrast.apca.toFixed(1)}`}
+          >
+            {contrast.ratio.toFixed(2)}:1 {contrast.level}
+          </span>
           {/* Show Check icon if copied, otherwise Copy icon */}
           {isCopied ? (
             <Check className="size-4" style={{ color: textColor }} />
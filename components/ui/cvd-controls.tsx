@@ -0,0 +1,65 @@
+import React from 'react';
+import { Eye } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuRadioGroup, DropdownMenuRadioItem, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { CVD_TYPES, CvdSimulation, CvdType } from "@/lib/colors";
+
+interface CvdControlsProps {
+  simulation: CvdSimulation | null;
+  onChange: (simulation: CvdSimulation | null) => void;
+}
+
+/**
+ * Picker for the color vision deficiency the palette grid is rendered with,
+ * plus a severity slider for the anomalous (partial) types.
+**/
+export const CvdControls = React.memo(({ simulation, onChange }: CvdControlsProps) => {
+  const current = CVD_TYPES.find(type => type.value === simulation?.type);
+  const severity = simulation?.severity ?? 1;
+
+  return (
+    <div className="ml-auto flex items-center justify-end gap-2">
+      {current?.anomalous && (
+        <div className="flex items-center gap-2">
+          <input
+            type="range"
+            min={0}
+            max={100}
+            value={Math.round(severity * 100)}
+            onChange={(e) => onChange({ type: current.value, severity: Number(e.target.value) / 100 })}
+            className="h-1.5 w-24 cursor-pointer accent-foreground"
+            aria-label="Severity"
+          />
+          <span className="w-8 text-right font-mono text-xs text-muted-foreground">
+            {Math.round(severity * 100)}%
+          </span>
+        </div>
+      )}
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className="h-7 px-2 text-xs gap-1.5">
+            <Eye className="size-3.5" />
+            {current?.label ?? 'Normal vision'}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-44">
+          <DropdownMenuRadioGroup
+            value={simulation?.type ?? 'normal'}
+            onValueChange={(value) => onChange(
+              value === 'normal' ? null : { type: value as CvdType, severity }
+            )}
+          >
+            <DropdownMenuRadioItem value="normal">Normal vision</DropdownMenuRadioItem>
+            <DropdownMenuSeparator />
+            {CVD_TYPES.map(type => (
+              <DropdownMenuRadioItem key={type.value} value={type.value}>
+                {type.label}
+              </DropdownMenuRadioItem>
+            ))}
+          </DropdownMenuRadioGroup>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  );
+});
@@ -0,0 +1,44 @@
+import React from 'react';
+import { TriangleAlert } from "lucide-react";
+import { Input } from "@/components/ui/input";
+
+interface DistinctnessThresholdProps {
+  threshold: number;
+  onChange: (threshold: number) => void;
+  warningCount: number;
+}
+
+/**
+ * Input for the CIEDE2000 distance below which swatch pairs are flagged,
+ * with a count of the swatches currently flagged.
+**/
+export const DistinctnessThreshold = React.memo(({ threshold, onChange, warningCount }: DistinctnessThresholdProps) => {
+  return (
+    <div className="flex items-center gap-2 text-xs text-muted-foreground">
+      <label htmlFor="distinct-threshold" className="whitespace-nowrap">
+        Flag pairs below ΔE00
+      </label>
+      <Input
+        id="distinct-threshold"
+        type="number"
+        min={0}
+        max={50}
+        step={0.5}
+        value={threshold}
+        onChange={(e) => {
+          const value = Number(e.target.value);
+          if (Number.isFinite(value) && value >= 0) {
+            onChange(value);
+          }
+        }}
+        className="h-7 w-16 font-mono text-xs"
+      />
+      {warningCount > 0 && (
+        <span className="flex items-center gap-1 text-amber-600 dark:text-amber-400">
+          <TriangleAlert className="size-3.5" />
+          {warningCount} {warningCount === 1 ? 'swatch' : 'swatches'}
+        </span>
+      )}
+    </div>
+  );
+});
@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import { toast } from "sonner";
+import { Copy } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuRadioGroup, DropdownMenuRadioItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { HueInterpolation, InterpolationSpace } from "@/lib/colors";
+import { GradientKind, GradientOptions, evenStopPositions, formatGradientCss, formatGradientFallback } from "@/lib/gradients";
+import { checkerboard, cn, withCheckerboard } from "@/lib/utils";
+
+interface GradientPanelProps {
+  colors: string[];
+}
+
+const kinds: { value: GradientKind; label: string }[] = [
+  { value: 'linear', label: 'Linear' },
+  { value: 'radial', label: 'Radial' },
+  { value: 'conic', label: 'Conic' },
+];
+
+// Interpolation choices, keyed for the radio group
+const interpolations: Record<string, { label: string; space: InterpolationSpace; hue: HueInterpolation }> = {
+  'srgb': { label: 'sRGB', space: 'srgb', hue: 'shorter' },
+  'srgb-linear': { label: 'Linear RGB', space: 'srgb-linear', hue: 'shorter' },
+  'oklab': { label: 'OKLab', space: 'oklab', hue: 'shorter' },
+  'oklch-shorter': { label: 'OKLCH shorter hue', space: 'oklch', hue: 'shorter' },
+  'oklch-longer': { label: 'OKLCH longer hue', space: 'oklch', hue: 'longer' },
+};
+
+/**
+ * Turns the palette into a linear, radial or conic CSS gradient with
+ * adjustable stops and interpolation space. The preview is drawn from the
+ * same sampled stops as the CSS fallback, so it matches what browsers
+ * render for the native `in <space>` gradient.
+**/
+export const GradientPanel = React.memo(({ colors }: GradientPanelProps) => {
+  const [kind, setKind] = useState<GradientKind>('linear');
+  const [angle, setAngle] = useState(90);
+  const [interpolation, setInterpolation] = useState('oklab');
+  const [customPositions, setCustomPositions] = useState<number[]>([]);
+
+  // Stops are spread evenly until moved, and again whenever the swatch count changes
+  const positions = customPositions.length === colors.length ? customPositions : evenStopPositions(colors.length);
+  const stops = colors.map((color, index) => ({ color, position: positions[index] }));
+
+  const options: GradientOptions = {
+    kind,
+    angle,
+    space: interpolations[interpolation].space,
+    hue: interpolations[interpolation].hue
+  };
+  const preview = formatGradientFallback(stops, options);
+  const css = formatGradientCss(stops, options);
+
+  const setPosition = (index: number, position: number) => {
+    setCustomPositions(positions.map((current, i) => i === index ? position : current));
+  };
+
+  const copyCss = () => {
+    navigator.clipboard.writeText(css)
+      .then(() => toast.success("Copied gradient CSS to clipboard!"))
+      .catch(() => toast.error("Failed to copy to clipboard"));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm font-medium mr-auto">Gradient</span>
+
+        {kinds.map(option => (
+          <Button
+            key={option.value}
+            onClick={() => setKind(option.value)}
+            size="sm"
+            variant={kind === option.value ? 'secondary' : 'ghost'}
+            className="h-8 px-2 text-xs"
+          >
+            {option.label}
+          </Button>
+        ))}
+
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" className="h-8 px-2 text-xs" aria-label="Interpolation space">
+              {interpolations[interpolation].label}
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent>
+            <DropdownMenuRadioGroup value={interpolation} onValueChange={setInterpolation}>
+              {Object.entries(interpolations).map(([key, option]) => (
+                <DropdownMenuRadioItem key={key} value={key}>{option.label}</DropdownMenuRadioItem>
+              ))}
+            </DropdownMenuRadioGroup>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+
+      {/* Preview, drawn from the sampled stops over a checkerboard for translucent colors */}
+      <div
+        className={cn("w-full rounded-md border border-border/50", kind === 'linear' ? "h-16" : "h-40")}
+        style={{ background: `${preview}, ${checkerboard()}` }}
+      />
+
+      {/* Angle for linear and conic gradients */}
+      {kind !== 'radial' && (
+        <label className="flex items-center gap-2 text-xs text-muted-foreground">
+          <span className="w-12">Angle</span>
+          <input
+            type="range"
+            min={0}
+            max={360}
+            value={angle}
+            onChange={(e) => setAngle(Number(e.target.value))}
+            className="h-1.5 flex-1 cursor-pointer accent-foreground"
+          />
+          <span className="w-10 text-right font-mono">{angle}°</span>
+        </label>
+      )}
+
+      {/* One slider per stop */}
+      <div className="grid grid-cols-1 gap-x-4 gap-y-1 sm:grid-cols-2">
+        {stops.map((stop, index) => (
+          <label key={index} className="flex items-center gap-2 text-xs text-muted-foreground">
+            <span
+              className="size-3 shrink-0 rounded-full border border-border/50"
+              style={{ background: withCheckerboard(stop.color, 4) }}
+            />
+            <input
+              type="range"
+              min={0}
+              max={100}
+              step={0.5}
+              value={stop.position}
+              onChange={(e) => setPosition(index, Number(e.target.value))}
+              className="h-1.5 flex-1 cursor-pointer accent-foreground"
+              aria-label={`Stop ${index + 1} position`}
+            />
+            <span className="w-10 text-right font-mono">{Math.round(stop.position)}%</span>
+          </label>
+        ))}
+      </div>
+
+      {/* Copyable CSS with the sRGB fallback first */}
+      <div className="relative">
+        <pre className="overflow-x-auto rounded-md bg-muted p-3 pr-10 font-mono text-xs whitespace-pre">{css}</pre>
+        <Button
+          onClick={copyCss}
+          size="icon"
+          variant="ghost"
+          className="absolute top-1.5 right-1.5 size-7"
+          aria-label="Copy gradient CSS"
+        >
+          <Copy className="size-3.5" />
+        </Button>
+      </div>
+    </div>
+  );
+});
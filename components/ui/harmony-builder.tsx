@@ -0,0 +1,92 @@
+import React from 'react';
+import { Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { GenerationSpace, HarmonyStop, MAX_HARMONY_STOPS, generateCustomHarmonyPalette } from "@/lib/colors";
+
+interface HarmonyBuilderProps {
+  stops: HarmonyStop[];
+  onChange: (stops: HarmonyStop[]) => void;
+  baseColor: string;
+  generationSpace: GenerationSpace;
+}
+
+const fields: { key: keyof HarmonyStop; label: string; unit: string; min?: number; max?: number }[] = [
+  { key: 'offset', label: 'Hue offset', unit: '°', min: -360, max: 360 },
+  { key: 'saturation', label: 'Saturation change', unit: 'S%', min: -100, max: 100 },
+  { key: 'lightness', label: 'Lightness change', unit: 'L%', min: -100, max: 100 },
+  { key: 'weight', label: 'Share of swatches', unit: '×', min: 0 },
+];
+
+/**
+ * Editor for the custom harmony: one row per hue offset from the base color,
+ * each with saturation and lightness adjustments and a share of the swatches.
+**/
+export const HarmonyBuilder = React.memo(({ stops, onChange, baseColor, generationSpace }: HarmonyBuilderProps) => {
+  const updateStop = (index: number, key: keyof HarmonyStop, value: number) => {
+    onChange(stops.map((stop, i) => i === index ? { ...stop, [key]: value } : stop));
+  };
+
+  const addStop = () => {
+    const last = stops[stops.length - 1];
+    onChange([...stops, { offset: ((last?.offset ?? 0) + 60) % 360, saturation: 0, lightness: 0, weight: 1 }]);
+  };
+
+  return (
+    <div className="rounded-md border p-3 space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-medium">Custom harmony</span>
+        <Button
+          onClick={addStop}
+          disabled={stops.length >= MAX_HARMONY_STOPS}
+          size="sm"
+          variant="ghost"
+          className="h-7 px-2 text-xs"
+        >
+          <Plus className="size-3.5" /> Hue
+        </Button>
+      </div>
+
+      {stops.map((stop, index) => (
+        <div key={index} className="flex items-center gap-2">
+          {/* The stop's own color, before any variations */}
+          <div
+            className="size-5 shrink-0 rounded-full border border-border/50"
+            style={{ backgroundColor: generateCustomHarmonyPalette(baseColor, [stop], 1, generationSpace)[0] }}
+          />
+
+          {fields.map(field => (
+            <label key={field.key} className="flex items-center gap-1 text-xs text-muted-foreground">
+              <Input
+                type="number"
+                value={stop[field.key]}
+                min={field.min}
+                max={field.max}
+                onChange={(e) => {
+                  const value = Number(e.target.value);
+                  if (e.target.value !== '' && Number.isFinite(value)) {
+                    updateStop(index, field.key, field.key === 'weight' ? Math.max(0, value) : value);
+                  }
+                }}
+                aria-label={field.label}
+                className="h-7 w-16 font-mono text-xs"
+              />
+              {field.unit}
+            </label>
+          ))}
+
+          <Button
+            onClick={() => onChange(stops.filter((_, i) => i !== index))}
+            disabled={stops.length <= 1}
+            size="icon"
+            variant="ghost"
+            className="ml-auto size-7"
+            aria-label="Remove hue"
+          >
+            <X className="size-3.5" />
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+});
@@ -0,0 +1,79 @@
+import React from 'react';
+import { History, Redo2, Undo2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuLabel, DropdownMenuRadioGroup, DropdownMenuRadioItem, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { cn } from "@/lib/utils";
+
+interface HistoryControlsProps {
+  entries: { label: string; time: number }[];
+  index: number;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onJump: (index: number) => void;
+}
+
+/**
+ * Undo and redo buttons plus a list of earlier palettes to jump back to,
+ * newest first. Entries after the current one can still be redone.
+**/
+export const HistoryControls = React.memo(({ entries, index, canUndo, canRedo, onUndo, onRedo, onJump }: HistoryControlsProps) => (
+  <div className="flex items-center gap-1">
+    <Button
+      onClick={onUndo}
+      disabled={!canUndo}
+      size="icon"
+      variant="outline"
+      className="size-7"
+      aria-label="Undo"
+      title="Undo (Ctrl/⌘+Z)"
+    >
+      <Undo2 className="size-3.5" />
+    </Button>
+    <Button
+      onClick={onRedo}
+      disabled={!canRedo}
+      size="icon"
+      variant="outline"
+      className="size-7"
+      aria-label="Redo"
+      title="Redo (Ctrl/⌘+Shift+Z)"
+    >
+      <Redo2 className="size-3.5" />
+    </Button>
+
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          disabled={entries.length < 2}
+          size="icon"
+          variant="outline"
+          className="size-7"
+          aria-label="History"
+          title="History"
+        >
+          <History className="size-3.5" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="max-h-80 w-56 overflow-y-auto">
+        <DropdownMenuLabel className="text-xs">History</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuRadioGroup value={String(index)} onValueChange={(value) => onJump(Number(value))}>
+          {entries.map((entry, position) => ({ entry, position })).reverse().map(({ entry, position }) => (
+            <DropdownMenuRadioItem
+              key={`${position}-${entry.time}`}
+              value={String(position)}
+              className={cn("text-xs", position > index && "text-muted-foreground")}
+            >
+              <span className="truncate">{entry.label}</span>
+              <span className="ml-auto pl-2 font-mono text-[10px] text-muted-foreground">
+                {new Date(entry.time).toLocaleTimeString()}
+              </span>
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  </div>
+));
@@ -0,0 +1,142 @@
+import React, { useRef, useState } from 'react';
+import { toast } from "sonner";
+import { ImageUp, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { extractPaletteFromImage } from "@/lib/extract-image-palette";
+import { cn } from "@/lib/utils";
+
+interface ImageImportProps {
+  defaultCount: number;
+  // Swatch limits the palette has to stay within
+  minCount: number;
+  maxCount: number;
+  paletteLabel: string;
+  disabled?: boolean;
+  // Colors are most prominent first
+  onExtract: (colors: string[], useAsBase: boolean) => void;
+}
+
+/**
+ * Popover for taking a palette from an image: pick or drop a file, choose how
+ * many colors, and either use them as the palette or use the most prominent
+ * one as the base color for the current harmony.
+**/
+export const ImageImport = React.memo(({ defaultCount, minCount, maxCount, paletteLabel, disabled = false, onExtract }: ImageImportProps) => {
+  const [open, setOpen] = useState(false);
+  // The count as typed, only brought within the limits once the field is left
+  const [countText, setCountText] = useState(String(defaultCount));
+  const [useAsBase, setUseAsBase] = useState(false);
+  const [extracting, setExtracting] = useState(false);
+  const [dragging, setDragging] = useState(false);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  // The limits can change after a count was picked
+  const typedCount = Number(countText);
+  const colorCount = Math.min(maxCount, Math.max(minCount, Number.isInteger(typedCount) && countText !== '' ? typedCount : defaultCount));
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+
+    setExtracting(true);
+    try {
+      const colors = await extractPaletteFromImage(file, colorCount);
+      if (colors.length === 0) {
+        toast.error("No opaque pixels found in the image");
+        return;
+      }
+      // Images with few colors can yield fewer than asked for, too few for a palette of their own
+      if (!useAsBase && colors.length < minCount) {
+        toast.error(`The image only has ${colors.length} distinct colors, a palette needs at least ${minCount}`);
+        return;
+      }
+      onExtract(colors.map(({ color }) => color), useAsBase);
+      setOpen(false);
+    } catch (error) {
+      console.error("Failed to extract palette from image:", error);
+      toast.error("Could not read that image");
+    } finally {
+      setExtracting(false);
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          size="sm"
+          variant="outline"
+          className="h-8 px-3"
+          disabled={disabled}
+          aria-label="Palette from image"
+          title="Palette from image"
+        >
+          <ImageUp />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 space-y-3">
+        {/* Drop zone, also opens the file picker on click */}
+        <button
+          type="button"
+          className={cn(
+            "flex h-24 w-full flex-col items-center justify-center gap-1 rounded-md border border-dashed text-xs text-muted-foreground transition-colors",
+            dragging && "border-foreground bg-muted"
+          )}
+          onClick={() => fileInput.current?.click()}
+          onDragOver={(e) => {
+            e.preventDefault();
+            setDragging(true);
+          }}
+          onDragLeave={() => setDragging(false)}
+          onDrop={(e) => {
+            e.preventDefault();
+            setDragging(false);
+            handleFile(e.dataTransfer.files[0]);
+          }}
+          disabled={extracting}
+        >
+          {extracting ? (
+            <Loader2 className="size-4 animate-spin" />
+          ) : (
+            <ImageUp className="size-4" />
+          )}
+          {extracting ? 'Extracting colors…' : 'Drop an image or click to choose'}
+        </button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept="image/*"
+          className="hidden"
+          onChange={(e) => {
+            handleFile(e.target.files?.[0]);
+            e.target.value = '';
+          }}
+        />
+
+        <label className="flex items-center justify-between gap-2 text-xs">
+          Colors
+          <Input
+            type="number"
+            min={minCount}
+            max={maxCount}
+            value={countText}
+            onChange={(e) => setCountText(e.target.value)}
+            onBlur={() => setCountText(String(colorCount))}
+            className="h-7 w-16 font-mono text-xs"
+          />
+        </label>
+
+        <label className="flex items-center gap-2 text-xs">
+          <input
+            type="checkbox"
+            checked={useAsBase}
+            onChange={(e) => setUseAsBase(e.target.checked)}
+            className="accent-foreground"
+          />
+          Use the most prominent color as the base for {paletteLabel}
+        </label>
+      </PopoverContent>
+    </Popover>
+  );
+});
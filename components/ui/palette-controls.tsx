@@ -1,10 +1,13 @@
-import React, { createContext, useContext, useCallback, useMemo } from 'react';
+import React, { createContext, useContext, useCallback, useMemo, useState } from 'react';
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { isValidHexColor, standardizeHexColor, PaletteType, hexToHSL } from "@/lib/colors";
-import { cn } from "@/lib/utils";
-import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { PaletteType, AlphaMode, getPaletteGenerator, getPaletteGenerators, ColorFormat, GenerationSpace, VariationStrategy, hexToHSL, hexToOklch, formatColor, formatSeed, parseColor } from "@/lib/colors";
+import { ContrastEnforcement, ContrastTarget, describeContrastTarget } from "@/lib/contrast";
+import { cn, withCheckerboard } from "@/lib/utils";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuRadioGroup, DropdownMenuRadioItem, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { Shuffle, Share, Plus, Minus } from "lucide-react";
+import { ImageImport } from "@/components/ui/image-import";
+import { SavePalette } from "@/components/ui/save-palette";
 
 // Create a context for palette controls functions and state
 interface PaletteControlsContextType {
@@ -12,9 +15,20 @@ interface PaletteControlsContextType {
   handleRandomColor: () => void;
   handleShareClick?: () => void;
   handlePaletteTypeChange: (type: PaletteType) => void;
+  handleGenerationSpaceChange: (space: GenerationSpace) => void;
+  handleAlphaModeChange: (mode: AlphaMode) => void;
+  handleContrastEnforcementChange: (enforcement: ContrastEnforcement | null) => void;
+  handleVariationChange: (variation: VariationStrategy) => void;
+  handleMinDistanceChange: (minDistance: number) => void;
   isValidInput: boolean;
   loading: boolean;
   paletteType: PaletteType;
+  generationSpace: GenerationSpace;
+  alphaMode: AlphaMode;
+  contrastEnforcement: ContrastEnforcement | null;
+  variation: VariationStrategy;
+  minDistance: number;
+  seed: number | null;
 }
 
 const PaletteControlsContext = createContext<PaletteControlsContextType | null>(null);
@@ -30,9 +44,20 @@ const PaletteControlsProvider: React.FC<PaletteControlsContextType & { children:
     contextValue.handleRandomColor,
     contextValue.handleShareClick,
     contextValue.handlePaletteTypeChange,
+    contextValue.handleGenerationSpaceChange,
+    contextValue.handleAlphaModeChange,
+    contextValue.handleContrastEnforcementChange,
+    contextValue.handleVariationChange,
+    contextValue.handleMinDistanceChange,
     contextValue.isValidInput,
     contextValue.loading,
-    contextValue.paletteType
+    contextValue.paletteType,
+    contextValue.generationSpace,
+    contextValue.alphaMode,
+    contextValue.contrastEnforcement,
+    contextValue.variation,
+    contextValue.minDistance,
+    contextValue.seed
   ]);
   
   return (
@@ -69,7 +94,7 @@ const GenerateButton = React.memo(() => {
 });
 
 const RandomColorButton = React.memo(() => {
-  const { handleRandomColor, loading } = usePaletteControls();
+  const { handleRandomColor, loading, seed } = usePaletteControls();
   
   return (
     <Button
@@ -78,8 +103,11 @@ const RandomColorButton = React.memo(() => {
       size="sm"
       variant="outline"
       className="h-8 px-3"
+      title={seed != null ? `Random color from seed ${formatSeed(seed)}` : 'Random color'}
     >
       <span><Shuffle /></span>
+      {/* The seed this color came from, kept in the share URL */}
+      {seed != null && <span className="font-mono text-xs">{formatSeed(seed)}</span>}
     </Button>
   );
 });
@@ -105,15 +133,8 @@ const ShareButton = React.memo(() => {
 const PaletteTypeSelector = React.memo(() => {
   const { paletteType, loading, handlePaletteTypeChange } = usePaletteControls();
   
-  // Define the available palette types for the Select dropdown
-  const paletteTypes: { value: PaletteType; label: string }[] = [
-    { value: 'monochromatic', label: 'Mono' },
-    { value: 'analogous', label: 'Analogous' },
-    { value: 'complementary', label: 'Complementary' },
-    { value: 'triadic', label: 'Triadic' },
-    { value: 'tetradic', label: 'Tetradic' },
-    { value: 'split-complementary', label: 'Split' },
-  ];
+  // The available palette types come from the generator registry
+  const paletteTypes = getPaletteGenerators();
 
   return (
     <DropdownMenu>
@@ -124,14 +145,15 @@ const PaletteTypeSelector = React.memo(() => {
           disabled={loading}
           className="h-8 text-xs w-[110px]"
         >
-          {paletteTypes.find(pt => pt.value === paletteType)?.label || 'Type'}
+          {paletteTypes.find(pt => pt.id === paletteType)?.label || 'Type'}
         </Button>
       </DropdownMenuTrigger>
       <DropdownMenuContent>
         {paletteTypes.map((type) => (
           <DropdownMenuItem 
-            key={type.value}
-            onClick={() => handlePaletteTypeChange(type.value)}
+            key={type.id}
+            onClick={() => handlePaletteTypeChange(type.id)}
+            title={type.description}
           >
             {type.label}
           </DropdownMenuItem>
@@ -141,42 +163,296 @@ const PaletteTypeSelector = React.memo(() => {
   );
 });
 
+// Memoized toggle between HSL and perceptual OKLCH generation
+const GenerationSpaceToggle = React.memo(() => {
+  const { generationSpace, loading, handleGenerationSpaceChange } = usePaletteControls();
+
+  return (
+    <Button
+      onClick={() => handleGenerationSpaceChange(generationSpace === 'hsl' ? 'oklch' : 'hsl')}
+      disabled={loading}
+      size="sm"
+      variant="outline"
+      className="h-8 px-2 text-xs"
+      title={generationSpace === 'hsl'
+        ? "Generating in HSL. Switch to perceptual OKLCH"
+        : "Generating in OKLCH. Switch to HSL"}
+      aria-label="Toggle generation color space"
+    >
+      {generationSpace === 'hsl' ? 'HSL' : 'OKLCH'}
+    </Button>
+  );
+});
+
+// Memoized selector for how alpha is spread across the palette
+const AlphaModeSelector = React.memo(() => {
+  const { alphaMode, loading, handleAlphaModeChange } = usePaletteControls();
+
+  const alphaModes: { value: AlphaMode; label: string; description: string }[] = [
+    { value: 'fixed', label: 'Fixed', description: "Base color's alpha" },
+    { value: 'ramp', label: 'Ramp', description: 'Fade across swatches' },
+  ];
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={loading}
+          className="h-8 px-2 text-xs"
+          aria-label="Alpha mode"
+        >
+          α {alphaModes.find(mode => mode.value === alphaMode)?.label}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent className="w-44">
+        {alphaModes.map((mode) => (
+          <DropdownMenuItem
+            key={mode.value}
+            onClick={() => handleAlphaModeChange(mode.value)}
+            className="flex justify-between items-center"
+          >
+            <span>{mode.label}</span>
+            <span className="text-xs text-muted-foreground">{mode.description}</span>
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+});
+
+// Contrast targets offered in the selector, keyed for the radio group
+const contrastTargets: Record<string, ContrastTarget> = {
+  'wcag-AA': { kind: 'wcag', level: 'AA' },
+  'wcag-AAA': { kind: 'wcag', level: 'AAA' },
+  'apca-60': { kind: 'apca', lc: 60 },
+  'apca-75': { kind: 'apca', lc: 75 },
+  'apca-90': { kind: 'apca', lc: 90 },
+};
+
+const contrastTargetKey = (target: ContrastTarget) =>
+  target.kind === 'wcag' ? `wcag-${target.level}` : `apca-${target.lc}`;
+
+// Memoized selector for the contrast target swatches are adjusted to meet
+const ContrastSelector = React.memo(() => {
+  const { contrastEnforcement, loading, handleContrastEnforcementChange } = usePaletteControls();
+  const against = contrastEnforcement?.against ?? 'text';
+  const [backgroundText, setBackgroundText] = useState(against === 'text' ? '#ffffff' : against);
+  const backgroundResult = parseColor(backgroundText);
+
+  const setTarget = (key: string) => {
+    handleContrastEnforcementChange(key === 'off' ? null : { target: contrastTargets[key], against });
+  };
+
+  const setAgainst = (value: string) => {
+    if (contrastEnforcement) {
+      handleContrastEnforcementChange({ ...contrastEnforcement, against: value });
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={loading}
+          className="h-8 px-2 text-xs"
+          aria-label="Enforce contrast"
+        >
+          {contrastEnforcement ? describeContrastTarget(contrastEnforcement.target) : 'Contrast'}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent className="w-52">
+        <DropdownMenuLabel className="text-xs">Enforce contrast</DropdownMenuLabel>
+        <DropdownMenuRadioGroup
+          value={contrastEnforcement ? contrastTargetKey(contrastEnforcement.target) : 'off'}
+          onValueChange={setTarget}
+        >
+          <DropdownMenuRadioItem value="off">Off</DropdownMenuRadioItem>
+          {Object.entries(contrastTargets).map(([key, target]) => (
+            <DropdownMenuRadioItem key={key} value={key}>
+              {describeContrastTarget(target)}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel className="text-xs">Against</DropdownMenuLabel>
+        <DropdownMenuRadioGroup
+          value={against === 'text' ? 'text' : 'background'}
+          onValueChange={(value) => setAgainst(
+            value === 'text' ? 'text' : (backgroundResult.valid ? backgroundResult.hex : '#ffffff')
+          )}
+        >
+          <DropdownMenuRadioItem value="text" disabled={!contrastEnforcement}>
+            Swatch text color
+          </DropdownMenuRadioItem>
+          <DropdownMenuRadioItem value="background" disabled={!contrastEnforcement}>
+            Background
+          </DropdownMenuRadioItem>
+        </DropdownMenuRadioGroup>
+        <div className="px-2 pb-1.5">
+          <Input
+            value={backgroundText}
+            disabled={!contrastEnforcement || against === 'text'}
+            onChange={(e) => {
+              setBackgroundText(e.target.value);
+              const result = parseColor(e.target.value);
+              if (result.valid && against !== 'text') {
+                setAgainst(result.hex);
+              }
+            }}
+            // Keep typing from triggering the menu's typeahead
+            onKeyDown={(e) => e.stopPropagation()}
+            aria-invalid={!backgroundResult.valid}
+            aria-label="Background color"
+            className="h-7 font-mono text-xs"
+          />
+        </div>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+});
+
+// Memoized selector for the minimum swatch distance and how colliding swatches are varied
+const VariationSelector = React.memo(() => {
+  const { variation, minDistance, loading, handleVariationChange, handleMinDistanceChange } = usePaletteControls();
+
+  const strategies: { value: VariationStrategy; label: string; description: string }[] = [
+    { value: 'auto', label: 'Auto', description: 'Lighter or darker' },
+    { value: 'tints', label: 'Tints', description: 'Lighter' },
+    { value: 'shades', label: 'Shades', description: 'Darker' },
+    { value: 'tones', label: 'Tones', description: 'Less saturated' },
+  ];
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={loading}
+          className="h-8 px-2 text-xs"
+          aria-label="Swatch variation"
+        >
+          {minDistance > 0 ? strategies.find(strategy => strategy.value === variation)?.label : 'Dupes'}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent className="w-48">
+        <DropdownMenuLabel className="text-xs">Vary colliding swatches</DropdownMenuLabel>
+        <DropdownMenuRadioGroup
+          value={variation}
+          onValueChange={(value) => handleVariationChange(value as VariationStrategy)}
+        >
+          {strategies.map((strategy) => (
+            <DropdownMenuRadioItem
+              key={strategy.value}
+              value={strategy.value}
+              disabled={minDistance <= 0}
+              className="flex justify-between items-center"
+            >
+              <span>{strategy.label}</span>
+              <span className="text-xs text-muted-foreground">{strategy.description}</span>
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+        <DropdownMenuSeparator />
+        <div className="flex items-center justify-between gap-2 px-2 py-1.5 text-xs">
+          <label htmlFor="min-distance">Min ΔE00 (0 only rules out duplicates)</label>
+          <Input
+            id="min-distance"
+            type="number"
+            min={0}
+            max={50}
+            step={0.5}
+            value={minDistance}
+            onChange={(e) => {
+              const value = Number(e.target.value);
+              if (Number.isFinite(value) && value >= 0) {
+                handleMinDistanceChange(value);
+              }
+            }}
+            // Keep typing from triggering the menu's typeahead
+            onKeyDown={(e) => e.stopPropagation()}
+            className="h-7 w-16 font-mono text-xs"
+          />
+        </div>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+});
+
 // Define props for the PaletteControls component
 interface PaletteControlsProps {
   inputColor: string;
+  baseColor: string;
   isValidInput: boolean;
+  inputError?: string | null;
   paletteType: PaletteType;
-  colorFormat: 'hex' | 'hsl' | 'oklch';
+  colorFormat: ColorFormat;
+  generationSpace: GenerationSpace;
+  alphaMode: AlphaMode;
+  contrastEnforcement: ContrastEnforcement | null;
+  variation: VariationStrategy;
+  minDistance: number;
+  seed: number | null;
   loading: boolean;
   showShareButton?: boolean;
   swatchCount: number;
+  minSwatches: number;
+  maxSwatches: number;
   handleColorWheelChange: (color: string) => void;
   handleInputChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
   handlePaletteTypeChange: (type: PaletteType) => void;
+  handleGenerationSpaceChange: (space: GenerationSpace) => void;
+  handleAlphaModeChange: (mode: AlphaMode) => void;
+  handleContrastEnforcementChange: (enforcement: ContrastEnforcement | null) => void;
+  handleVariationChange: (variation: VariationStrategy) => void;
+  handleMinDistanceChange: (minDistance: number) => void;
   handleGeneratePalette: () => void;
   handleRandomColor: () => void;
   handleShareClick?: () => void;
-  setColorFormat: (format: 'hex' | 'hsl' | 'oklch') => void;
+  setColorFormat: (format: ColorFormat) => void;
   handleSwatchCountChange: (count: number) => void;
+  handleImagePalette: (colors: string[], useAsBase: boolean) => void;
+  handleSavePalette: (name: string, tags: string[]) => Promise<void>;
   ColorPicker: React.ComponentType<any>;
 }
 
 // Main component with context provider
 export const PaletteControls = React.memo(({
   inputColor,
+  baseColor,
   isValidInput,
+  inputError,
   paletteType,
   colorFormat,
+  generationSpace,
+  alphaMode,
+  contrastEnforcement,
+  variation,
+  minDistance,
+  seed,
   loading,
   showShareButton = false,
   swatchCount = 5,
+  minSwatches,
+  maxSwatches,
   handleColorWheelChange,
   handleInputChange,
   handlePaletteTypeChange,
+  handleGenerationSpaceChange,
+  handleAlphaModeChange,
+  handleContrastEnforcementChange,
+  handleVariationChange,
+  handleMinDistanceChange,
   handleGeneratePalette,
   handleRandomColor,
   handleShareClick,
   setColorFormat,
+  handleImagePalette,
+  handleSavePalette,
   ColorPicker
 }: PaletteControlsProps) => {
   
@@ -186,17 +462,39 @@ export const PaletteControls = React.memo(({
     handleRandomColor,
     handleShareClick: showShareButton ? handleShareClick : undefined,
     handlePaletteTypeChange,
+    handleGenerationSpaceChange,
+    handleAlphaModeChange,
+    handleContrastEnforcementChange,
+    handleVariationChange,
+    handleMinDistanceChange,
     isValidInput,
     loading,
-    paletteType
+    paletteType,
+    generationSpace,
+    alphaMode,
+    contrastEnforcement,
+    variation,
+    minDistance,
+    seed
   }), [
     handleGeneratePalette,
     handleRandomColor,
     handleShareClick,
     handlePaletteTypeChange,
+    handleGenerationSpaceChange,
+    handleAlphaModeChange,
+    handleContrastEnforcementChange,
+    handleVariationChange,
+    handleMinDistanceChange,
     isValidInput,
     loading,
     paletteType,
+    generationSpace,
+    alphaMode,
+    contrastEnforcement,
+    variation,
+    minDistance,
+    seed,
     showShareButton
   ]);
   
@@ -206,7 +504,7 @@ export const PaletteControls = React.memo(({
         {/* Color Picker and Hex Input */}
         <div className="flex gap-2 items-center grow">
           <ColorPicker
-            value={inputColor}
+            value={baseColor}
             onChange={handleColorWheelChange}
             className={cn(
               !isValidInput && "border-red-500"
@@ -216,7 +514,9 @@ export const PaletteControls = React.memo(({
           <Input
             value={inputColor}
             onChange={handleInputChange}
-            placeholder="#3b82f6"
+            placeholder="#3b82f6, rgb(59 130 246), rebeccapurple…"
+            aria-invalid={!isValidInput}
+            title={inputError ?? undefined}
             className={cn(
               "font-mono flex-grow h-8 text-sm",
               !isValidInput && "border-red-500"
@@ -234,7 +534,7 @@ export const PaletteControls = React.memo(({
               >
                 <div 
                   className="w-3 h-3 rounded-full border border-border/50" 
-                  style={{ backgroundColor: inputColor }}
+                  style={{ background: withCheckerboard(baseColor, 4) }}
                 />
                 {colorFormat.toUpperCase()}
               </Button>
@@ -245,7 +545,7 @@ export const PaletteControls = React.memo(({
                 className="flex justify-between items-center"
               >
                 <span>HEX</span>
-                <code className="text-xs text-muted-foreground">#{inputColor.substring(1, 7)}</code>
+                <code className="text-xs text-muted-foreground">#{baseColor.substring(1)}</code>
               </DropdownMenuItem>
               <DropdownMenuItem 
                 onClick={() => setColorFormat('hsl')}
@@ -255,7 +555,7 @@ export const PaletteControls = React.memo(({
                 <code className="text-xs text-muted-foreground truncate w-16">
                   {(() => {
                     try {
-                      const { h, s, l } = hexToHSL(inputColor);
+                      const { h } = hexToHSL(baseColor);
                       return `${Math.round(h)}°`;
                     } catch (e) {
                       return "HSL";
@@ -268,17 +568,67 @@ export const PaletteControls = React.memo(({
                 className="flex justify-between items-center"
               >
                 <span>OKLCH</span>
-                <code className="text-xs text-muted-foreground">L:C:H</code>
+                <code className="text-xs text-muted-foreground truncate w-16">
+                  {(() => {
+                    try {
+                      const { l, c } = hexToOklch(baseColor);
+                      return `${Math.round(l * 100)}% ${c.toFixed(2)}`;
+                    } catch (e) {
+                      return "L:C:H";
+                    }
+                  })()}
+                </code>
+              </DropdownMenuItem>
+              {/* Swatches are stored as sRGB hex, so the P3 values never reach beyond sRGB */}
+              <DropdownMenuItem 
+                onClick={() => setColorFormat('p3')}
+                className="flex justify-between items-center"
+                title="The swatch in Display-P3 notation. Swatches are kept within sRGB, so this won't reach the wider P3 colors"
+              >
+                <span>P3</span>
+                <code className="text-xs text-muted-foreground truncate w-16">
+                  {(() => {
+                    try {
+                      return formatColor(baseColor, 'p3').replace(/^color\(display-p3 |\)$/g, '');
+                    } catch (e) {
+                      return "R G B";
+                    }
+                  })()}
+                </code>
               </DropdownMenuItem>
             </DropdownMenuContent>
           </DropdownMenu>
 
           {/* Components that don't need to re-render when the parent re-renders */}
           <PaletteTypeSelector />
+          <GenerationSpaceToggle />
+          <AlphaModeSelector />
+          <ContrastSelector />
+          <VariationSelector />
           <GenerateButton />
           <RandomColorButton />
+          <ImageImport
+            defaultCount={swatchCount}
+            minCount={minSwatches}
+            maxCount={maxSwatches}
+            paletteLabel={getPaletteGenerator(paletteType)?.label ?? paletteType}
+            disabled={loading}
+            onExtract={handleImagePalette}
+          />
+          <SavePalette
+            defaultName={`${getPaletteGenerator(paletteType)?.label ?? paletteType} ${baseColor}`}
+            disabled={loading || !showShareButton}
+            onSave={handleSavePalette}
+          />
           {showShareButton && handleShareClick && <ShareButton />}
         </div>
+
+        {/* Explain why the typed color was rejected */}
+        {!isValidInput && inputError && (
+          <p className="w-full -mt-1 text-xs text-red-500" role="alert">
+            {inputError}
+          </p>
+        )}
       </div>
     </PaletteControlsProvider>
   );
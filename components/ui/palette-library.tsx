@@ -0,0 +1,172 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Copy, Pencil, Search, Tags, Trash2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { SavedPalette, matchesLibrarySearch, parseTags } from "@/lib/palette-library";
+import { withCheckerboard } from "@/lib/utils";
+
+interface PaletteLibraryProps {
+  palettes: SavedPalette[];
+  loading: boolean;
+  error: string | null;
+  onLoad: (palette: SavedPalette) => void;
+  onRename: (palette: SavedPalette, name: string) => void;
+  onRetag: (palette: SavedPalette, tags: string[]) => void;
+  onDuplicate: (palette: SavedPalette) => void;
+  onDelete: (palette: SavedPalette) => void;
+}
+
+interface SavedPaletteRowProps {
+  palette: SavedPalette;
+  onLoad: (palette: SavedPalette) => void;
+  onRename: (palette: SavedPalette, name: string) => void;
+  onRetag: (palette: SavedPalette, tags: string[]) => void;
+  onDuplicate: (palette: SavedPalette) => void;
+  onDelete: (palette: SavedPalette) => void;
+}
+
+const SavedPaletteRow = React.memo(({ palette, onLoad, onRename, onRetag, onDuplicate, onDelete }: SavedPaletteRowProps) => {
+  // The name or tags being typed while editing them, null otherwise
+  const [draft, setDraft] = useState<{ field: 'name' | 'tags'; value: string } | null>(null);
+  // Set once Enter or Escape ends the edit, so the blur that follows doesn't end it again
+  const finished = useRef(false);
+
+  const startEditing = (field: 'name' | 'tags') => {
+    finished.current = false;
+    setDraft({ field, value: field === 'name' ? palette.name : palette.tags.join(', ') });
+  };
+
+  const finishEditing = () => {
+    if (finished.current || !draft) return;
+    finished.current = true;
+    if (draft.field === 'name') {
+      const name = draft.value.trim();
+      if (name && name !== palette.name) {
+        onRename(palette, name);
+      }
+    } else {
+      const tags = parseTags(draft.value);
+      if (tags.join(',') !== palette.tags.join(',')) {
+        onRetag(palette, tags);
+      }
+    }
+    setDraft(null);
+  };
+
+  const draftInput = (label: string, placeholder?: string) => (
+    <Input
+      value={draft?.value ?? ''}
+      onChange={(e) => setDraft(prev => prev && { ...prev, value: e.target.value })}
+      onBlur={finishEditing}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') {
+          finishEditing();
+        } else if (e.key === 'Escape') {
+          finished.current = true;
+          setDraft(null);
+        }
+      }}
+      placeholder={placeholder}
+      className="h-6 text-xs"
+      aria-label={label}
+      autoFocus
+    />
+  );
+
+  return (
+    <li className="flex items-center gap-3 py-2">
+      {/* The swatches as they were shown when saved */}
+      <div className="flex h-8 w-28 shrink-0 overflow-hidden rounded-sm">
+        {palette.colors.map((color, index) => (
+          <div key={index} className="flex-1" style={{ background: withCheckerboard(color) }} />
+        ))}
+      </div>
+
+      <div className="min-w-0 flex-1">
+        {draft?.field === 'name' ? draftInput("Palette name") : (
+          <p className="truncate text-xs font-medium">{palette.name}</p>
+        )}
+        {draft?.field === 'tags' ? draftInput("Palette tags", "brand, warm, dark mode") : (
+          <p className="truncate text-[10px] text-muted-foreground">
+            {palette.tags.length > 0 && <span>{palette.tags.map(tag => `#${tag}`).join(' ')} · </span>}
+            {palette.colors.length} swatches · {new Date(palette.updatedAt).toLocaleString()}
+          </p>
+        )}
+      </div>
+
+      <div className="flex shrink-0 gap-0.5">
+        <Button size="icon" variant="ghost" className="size-7" onClick={() => onLoad(palette)} aria-label={`Load ${palette.name}`} title="Load">
+          <Upload className="size-3.5" />
+        </Button>
+        <Button size="icon" variant="ghost" className="size-7" onClick={() => startEditing('name')} aria-label={`Rename ${palette.name}`} title="Rename">
+          <Pencil className="size-3.5" />
+        </Button>
+        <Button size="icon" variant="ghost" className="size-7" onClick={() => startEditing('tags')} aria-label={`Edit the tags of ${palette.name}`} title="Edit tags">
+          <Tags className="size-3.5" />
+        </Button>
+        <Button size="icon" variant="ghost" className="size-7" onClick={() => onDuplicate(palette)} aria-label={`Duplicate ${palette.name}`} title="Duplicate">
+          <Copy className="size-3.5" />
+        </Button>
+        <Button size="icon" variant="ghost" className="size-7" onClick={() => onDelete(palette)} aria-label={`Delete ${palette.name}`} title="Delete">
+          <Trash2 className="size-3.5" />
+        </Button>
+      </div>
+    </li>
+  );
+});
+
+/**
+ * The palettes saved on this device, searchable by name, tag or a hue one of
+ * their swatches has, each of which can be loaded back into the editor,
+ * renamed, retagged, duplicated or deleted.
+**/
+export const PaletteLibrary = React.memo(({ palettes, loading, error, onLoad, onRename, onRetag, onDuplicate, onDelete }: PaletteLibraryProps) => {
+  const [query, setQuery] = useState('');
+
+  const results = useMemo(
+    () => palettes.filter(palette => matchesLibrarySearch(palette, query)),
+    [palettes, query]
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm font-medium mr-auto">Library</span>
+        <div className="relative">
+          <Search className="pointer-events-none absolute left-2 top-1/2 size-3.5 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Name, tag or hue (blue, 200)"
+            className="h-8 w-56 pl-7 text-xs"
+            aria-label="Search saved palettes"
+          />
+        </div>
+      </div>
+
+      {error ? (
+        <p className="text-xs text-red-500" role="alert">Saved palettes are unavailable: {error}</p>
+      ) : loading ? (
+        <p className="text-xs text-muted-foreground">Loading saved palettes…</p>
+      ) : palettes.length === 0 ? (
+        <p className="text-xs text-muted-foreground">No saved palettes yet. Save one to keep it on this device.</p>
+      ) : results.length === 0 ? (
+        <p className="text-xs text-muted-foreground">No saved palettes match “{query}”</p>
+      ) : (
+        <ul className="max-h-80 divide-y overflow-y-auto">
+          {results.map(palette => (
+            <SavedPaletteRow
+              key={palette.id}
+              palette={palette}
+              onLoad={onLoad}
+              onRename={onRename}
+              onRetag={onRetag}
+              onDuplicate={onDuplicate}
+              onDelete={onDelete}
+            />
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+});
@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import { toast } from "sonner";
+import { Loader2, Save } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { parseTags } from "@/lib/palette-library";
+
+interface SavePaletteProps {
+  defaultName: string;
+  disabled?: boolean;
+  onSave: (name: string, tags: string[]) => Promise<void>;
+}
+
+/**
+ * Popover for saving the current palette to the library under a name and
+ * comma-separated tags.
+**/
+export const SavePalette = React.memo(({ defaultName, disabled = false, onSave }: SavePaletteProps) => {
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [tags, setTags] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const handleOpenChange = (next: boolean) => {
+    // Each save starts from a name for the palette as it is now
+    if (next) {
+      setName(defaultName);
+      setTags('');
+    }
+    setOpen(next);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      await onSave(name.trim() || defaultName, parseTags(tags));
+      setOpen(false);
+    } catch (error) {
+      console.error("Failed to save palette:", error);
+      toast.error("Failed to save the palette to the library");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button
+          size="sm"
+          variant="outline"
+          className="h-8 px-3"
+          disabled={disabled}
+          aria-label="Save to library"
+          title="Save to library"
+        >
+          <Save />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64">
+        <form className="space-y-3" onSubmit={handleSubmit}>
+          <label className="block space-y-1 text-xs">
+            <span>Name</span>
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="h-7 text-xs"
+              autoFocus
+            />
+          </label>
+          <label className="block space-y-1 text-xs">
+            <span>Tags</span>
+            <Input
+              value={tags}
+              onChange={(e) => setTags(e.target.value)}
+              placeholder="brand, warm, dark mode"
+              className="h-7 text-xs"
+            />
+          </label>
+          <Button type="submit" size="sm" className="h-7 w-full text-xs" disabled={saving}>
+            {saving && <Loader2 className="size-3.5 animate-spin" />}
+            Save to library
+          </Button>
+        </form>
+      </PopoverContent>
+    </Popover>
+  );
+});
@@ -0,0 +1,194 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { moveItem } from "@/lib/palette-order";
+import { cn } from "@/lib/utils";
+
+interface SortableSwatchesProps {
+  // Palette indices in display order
+  order: number[];
+  onReorder: (order: number[]) => void;
+  // How a swatch is named in screen reader announcements
+  describe: (index: number) => string;
+  renderSwatch: (index: number, position: number) => React.ReactNode;
+  className?: string;
+  cellClassName?: string;
+  // Renders only the rows in view, for long lists: each row is `itemHeight` pixels
+  // tall and the list scrolls beyond `maxHeight`
+  windowed?: { itemHeight: number; maxHeight: number };
+  // Extra cells after the swatches (add button, fillers), below the list when windowed
+  children?: React.ReactNode;
+}
+
+// Rows rendered beyond each edge of the visible part of a windowed list
+const OVERSCAN = 4;
+
+/**
+ * Grid of swatches that can be reordered by dragging, or from the keyboard:
+ * Space picks the focused swatch up, the arrow keys move it, Space drops it
+ * and Escape puts it back. Every step is announced to screen readers. The
+ * order changes only here while a swatch is moved and `onReorder` is called
+ * once it is dropped.
+**/
+export const SortableSwatches = ({
+  order,
+  onReorder,
+  describe,
+  renderSwatch,
+  className,
+  cellClassName,
+  windowed,
+  children
+}: SortableSwatchesProps) => {
+  const [dragged, setDragged] = useState<number | null>(null);
+  const [picked, setPicked] = useState<number | null>(null);
+  // The order shown while a swatch is being moved, null otherwise
+  const [draftOrder, setDraftOrder] = useState<number[] | null>(null);
+  const [announcement, setAnnouncement] = useState('');
+  const [scrollTop, setScrollTop] = useState(0);
+  const cells = useRef(new Map<number, HTMLDivElement>());
+
+  const shownOrder = draftOrder ?? order;
+
+  // Positions to render: all of them, or the ones in view plus any swatch being moved
+  const first = windowed ? Math.max(0, Math.floor(scrollTop / windowed.itemHeight) - OVERSCAN) : 0;
+  const last = windowed ? Math.min(shownOrder.length, Math.ceil((scrollTop + windowed.maxHeight) / windowed.itemHeight) + OVERSCAN) : shownOrder.length;
+  const rendered = shownOrder
+    .map((index, position) => ({ index, position }))
+    .filter(({ index, position }) => (position >= first && position < last) || index === picked || index === dragged);
+
+  // Moving a cell in the DOM can drop its focus, so give it back while it is picked up
+  useEffect(() => {
+    if (picked !== null) {
+      cells.current.get(picked)?.focus();
+    }
+  }, [shownOrder, picked]);
+
+  const move = (index: number, to: number) => {
+    const from = shownOrder.indexOf(index);
+    if (from !== to) {
+      setDraftOrder(moveItem(shownOrder, from, to));
+    }
+  };
+
+  // Ends a move, handing the new order on if the swatch ended up somewhere else
+  const drop = () => {
+    if (draftOrder && draftOrder.some((index, position) => index !== order[position])) {
+      onReorder(draftOrder);
+    }
+    setDraftOrder(null);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent, index: number, position: number) => {
+    // Keys pressed on the swatch's own buttons are theirs
+    if (e.target !== e.currentTarget) {
+      return;
+    }
+    const name = describe(index);
+
+    if (e.key === ' ') {
+      e.preventDefault();
+      if (picked !== null) {
+        drop();
+        setPicked(null);
+        setAnnouncement(`${name} dropped at position ${position + 1} of ${order.length}`);
+      } else {
+        setPicked(index);
+        setAnnouncement(`${name} picked up at position ${position + 1} of ${order.length}. Use the arrow keys to move it, Space to drop it, Escape to cancel`);
+      }
+    } else if (picked === index && ['ArrowLeft', 'ArrowUp', 'ArrowRight', 'ArrowDown'].includes(e.key)) {
+      e.preventDefault();
+      const step = e.key === 'ArrowLeft' || e.key === 'ArrowUp' ? -1 : 1;
+      const to = Math.min(order.length - 1, Math.max(0, position + step));
+      if (to !== position) {
+        move(index, to);
+        setAnnouncement(`${name} moved to position ${to + 1} of ${order.length}`);
+      }
+    } else if (picked !== null && e.key === 'Escape') {
+      e.preventDefault();
+      setDraftOrder(null);
+      setPicked(null);
+      setAnnouncement(`Reordering cancelled, ${name} is back at position ${order.indexOf(index) + 1}`);
+    }
+  };
+
+  const list = (
+    <div
+      className={windowed ? "relative" : className}
+      style={windowed ? { height: shownOrder.length * windowed.itemHeight } : undefined}
+      role="list"
+      aria-label="Palette swatches"
+    >
+      {rendered.map(({ index, position }) => (
+        <div
+          key={index}
+          ref={(cell) => {
+            if (cell) {
+              cells.current.set(index, cell);
+            } else {
+              cells.current.delete(index);
+            }
+          }}
+          role="listitem"
+          tabIndex={0}
+          aria-roledescription="sortable swatch"
+          aria-label={`${describe(index)}, position ${position + 1} of ${shownOrder.length}`}
+          draggable
+          onDragStart={(e) => {
+            // Firefox only starts a drag that carries data
+            e.dataTransfer.setData('text/plain', String(index));
+            e.dataTransfer.effectAllowed = 'move';
+            setDragged(index);
+            setDraftOrder(order);
+          }}
+          onDragOver={(e) => {
+            if (dragged === null) return;
+            e.preventDefault();
+            move(dragged, position);
+          }}
+          onDrop={(e) => e.preventDefault()}
+          onDragEnd={() => {
+            drop();
+            setDragged(null);
+          }}
+          onKeyDown={(e) => handleKeyDown(e, index, position)}
+          onBlur={(e) => {
+            // Tabbing away drops the swatch where it is
+            if (picked === index && e.relatedTarget !== null && e.relatedTarget !== e.currentTarget) {
+              drop();
+              setPicked(null);
+            }
+          }}
+          style={windowed ? { position: 'absolute', top: position * windowed.itemHeight, height: windowed.itemHeight, left: 0, right: 0 } : undefined}
+          className={cn(
+            "relative rounded-sm outline-none focus-visible:ring-2 focus-visible:ring-ring",
+            cellClassName,
+            dragged === index && "opacity-50",
+            picked === index && "ring-2 ring-ring scale-95 transition-transform"
+          )}
+        >
+          {renderSwatch(index, position)}
+        </div>
+      ))}
+      {!windowed && children}
+    </div>
+  );
+
+  return (
+    <>
+      {windowed ? (
+        <div className={className}>
+          <div
+            className="overflow-y-auto"
+            style={{ maxHeight: windowed.maxHeight }}
+            onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+          >
+            {list}
+          </div>
+          {children}
+        </div>
+      ) : list}
+
+      {/* Screen reader announcements for keyboard reordering */}
+      <div className="sr-only" aria-live="assertive">{announcement}</div>
+    </>
+  );
+};
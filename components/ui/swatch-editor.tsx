@@ -0,0 +1,158 @@
+import React, { Suspense, useEffect, useState } from 'react';
+import { Pencil, RotateCcw } from "lucide-react";
+import { hexToHsva, hsvaToHex } from '@uiw/color-convert';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import LazyColorWheel from "@/components/ui/lazy-wheel";
+import { OKLCH, getAlpha, gamutMapToHex, hexToHSL, hexToOklch, hslToHex, parseColor, withAlpha } from "@/lib/colors";
+import { cn } from "@/lib/utils";
+
+interface SwatchEditorProps {
+  color: string;
+  textColor: string;
+  overridden: boolean;
+  onChange: (color: string) => void;
+  onReset: () => void;
+}
+
+interface ChannelSlider {
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  value: number;
+  format: (value: number) => string;
+  onChange: (value: number) => void;
+}
+
+// One labelled range input per channel
+const ChannelSliders = ({ title, sliders }: { title: string; sliders: ChannelSlider[] }) => (
+  <div className="space-y-1">
+    <span className="text-[11px] font-medium text-muted-foreground">{title}</span>
+    {sliders.map(slider => (
+      <label key={slider.label} className="flex items-center gap-2 text-xs text-muted-foreground">
+        <span className="w-3">{slider.label}</span>
+        <input
+          type="range"
+          min={slider.min}
+          max={slider.max}
+          step={slider.step}
+          value={slider.value}
+          onChange={(e) => slider.onChange(Number(e.target.value))}
+          className="h-1.5 flex-1 cursor-pointer accent-foreground"
+          aria-label={`${title} ${slider.label}`}
+        />
+        <span className="w-10 text-right font-mono">{slider.format(slider.value)}</span>
+      </label>
+    ))}
+  </div>
+);
+
+/**
+ * Pencil button that opens an editor for one swatch: the color wheel, HSL and
+ * OKLCH channel sliders and a text input for any CSS color. Channel values
+ * are kept while editing, so hue survives passing through gray.
+**/
+export const SwatchEditor = React.memo(({ color, textColor, overridden, onChange, onReset }: SwatchEditorProps) => {
+  const alpha = getAlpha(color);
+  const [hsl, setHsl] = useState(() => hexToHSL(color));
+  const [lch, setLch] = useState<OKLCH>(() => hexToOklch(color));
+  const [text, setText] = useState(color);
+
+  // Follow changes from elsewhere, unless the current channels already describe the color
+  useEffect(() => {
+    const opaque = withAlpha(color, 1);
+    setHsl(current => hslToHex(current.h, current.s, current.l) === opaque ? current : hexToHSL(color));
+    setLch(current => gamutMapToHex(current) === opaque ? current : hexToOklch(color));
+    setText(current => {
+      const parsed = parseColor(current);
+      return parsed.valid && parsed.hex === color ? current : color;
+    });
+  }, [color]);
+
+  const updateHsl = (next: { h: number; s: number; l: number }) => {
+    setHsl(next);
+    onChange(withAlpha(hslToHex(next.h, next.s, next.l), alpha));
+  };
+
+  const updateLch = (next: OKLCH) => {
+    setLch(next);
+    onChange(withAlpha(gamutMapToHex(next), alpha));
+  };
+
+  const percent = (value: number) => `${Math.round(value * 100)}%`;
+  const degrees = (value: number) => `${Math.round(value)}°`;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          className={cn(
+            "transition-opacity bg-black/30 hover:bg-black/50 rounded-full p-0.5",
+            !overridden && "opacity-0 group-hover:opacity-100"
+          )}
+          onClick={(e) => e.stopPropagation()}
+          aria-label="Edit swatch"
+          title={overridden ? "Edited by hand: click to change or reset" : "Edit this color"}
+        >
+          <Pencil className="size-3" style={{ color: textColor }} />
+        </button>
+      </PopoverTrigger>
+      {/* Events from the portal still bubble to the swatch, which would copy the color */}
+      <PopoverContent className="w-[240px] p-3 space-y-3" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-center">
+          <Suspense fallback={<div className="w-[160px] h-[160px] rounded-full bg-muted animate-pulse" />}>
+            <LazyColorWheel
+              width={160}
+              height={160}
+              color={hexToHsva(color)}
+              onChange={(wheel) => onChange(withAlpha(hsvaToHex({ ...wheel.hsva, a: 1 }), alpha))}
+            />
+          </Suspense>
+        </div>
+
+        <ChannelSliders
+          title="HSL"
+          sliders={[
+            { label: 'H', min: 0, max: 360, step: 1, value: hsl.h, format: degrees, onChange: h => updateHsl({ ...hsl, h }) },
+            { label: 'S', min: 0, max: 1, step: 0.01, value: hsl.s, format: percent, onChange: s => updateHsl({ ...hsl, s }) },
+            { label: 'L', min: 0, max: 1, step: 0.01, value: hsl.l, format: percent, onChange: l => updateHsl({ ...hsl, l }) },
+          ]}
+        />
+
+        <ChannelSliders
+          title="OKLCH"
+          sliders={[
+            { label: 'L', min: 0, max: 1, step: 0.005, value: lch.l, format: percent, onChange: l => updateLch({ ...lch, l }) },
+            { label: 'C', min: 0, max: 0.4, step: 0.002, value: lch.c, format: value => value.toFixed(3), onChange: c => updateLch({ ...lch, c }) },
+            { label: 'H', min: 0, max: 360, step: 1, value: lch.h, format: degrees, onChange: h => updateLch({ ...lch, h }) },
+          ]}
+        />
+
+        <Input
+          value={text}
+          className="h-8 font-mono text-xs"
+          aria-label="Swatch color"
+          onChange={(e) => {
+            const result = parseColor(e.target.value);
+            setText(e.target.value);
+            if (result.valid) {
+              onChange(result.hex);
+            }
+          }}
+        />
+
+        <Button
+          onClick={onReset}
+          disabled={!overridden}
+          size="sm"
+          variant="outline"
+          className="h-8 w-full text-xs"
+        >
+          <RotateCcw className="size-3.5" /> Reset to generated
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+});
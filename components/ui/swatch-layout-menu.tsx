@@ -0,0 +1,93 @@
+import React from 'react';
+import { Columns3, LayoutGrid, LayoutList } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { SwatchLayout } from "@/components/ui/color-swatch";
+import { MAX_SWATCHES, SwatchLimits, clampSwatchLimits } from "@/lib/colors";
+
+const LAYOUTS: { value: SwatchLayout; label: string; icon: React.ComponentType<{ className?: string }> }[] = [
+  { value: 'grid', label: 'Grid', icon: LayoutGrid },
+  { value: 'strip', label: 'Strip', icon: Columns3 },
+  { value: 'list', label: 'List', icon: LayoutList },
+];
+
+interface SwatchLayoutMenuProps {
+  layout: SwatchLayout;
+  limits: SwatchLimits;
+  onLayoutChange: (layout: SwatchLayout) => void;
+  onLimitsChange: (limits: SwatchLimits) => void;
+}
+
+/**
+ * Popover for how the swatches are laid out (a wrapping grid, a strip of bars
+ * or a list with details) and how few and how many swatches adding and
+ * removing allow.
+**/
+export const SwatchLayoutMenu = React.memo(({ layout, limits, onLayoutChange, onLimitsChange }: SwatchLayoutMenuProps) => {
+  const CurrentIcon = LAYOUTS.find(option => option.value === layout)?.icon ?? LayoutGrid;
+
+  // Raising the minimum past the maximum raises the maximum with it, and the other way round
+  const handleLimitChange = (key: keyof SwatchLimits, value: number) => {
+    if (Number.isInteger(value) && value >= 2 && value <= MAX_SWATCHES) {
+      const clamped = clampSwatchLimits({ ...limits, [key]: value });
+      onLimitsChange(key === 'max' ? { min: Math.min(clamped.min, value), max: value } : clamped);
+    }
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          size="icon"
+          variant="outline"
+          className="size-7"
+          aria-label="Swatch layout and limits"
+          title="Swatch layout and limits"
+        >
+          <CurrentIcon className="size-3.5" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-56 space-y-3">
+        <div className="flex gap-1" role="group" aria-label="Swatch layout">
+          {LAYOUTS.map(({ value, label, icon: Icon }) => (
+            <Button
+              key={value}
+              size="sm"
+              variant={layout === value ? 'secondary' : 'outline'}
+              className="h-7 flex-1 gap-1 px-2 text-xs"
+              aria-pressed={layout === value}
+              onClick={() => onLayoutChange(value)}
+            >
+              <Icon className="size-3.5" />
+              {label}
+            </Button>
+          ))}
+        </div>
+
+        <label className="flex items-center justify-between gap-2 text-xs">
+          Fewest swatches
+          <Input
+            type="number"
+            min={2}
+            max={MAX_SWATCHES}
+            value={limits.min}
+            onChange={(e) => handleLimitChange('min', Number(e.target.value))}
+            className="h-7 w-16 font-mono text-xs"
+          />
+        </label>
+        <label className="flex items-center justify-between gap-2 text-xs">
+          Most swatches
+          <Input
+            type="number"
+            min={2}
+            max={MAX_SWATCHES}
+            value={limits.max}
+            onChange={(e) => handleLimitChange('max', Number(e.target.value))}
+            className="h-7 w-16 font-mono text-xs"
+          />
+        </label>
+      </PopoverContent>
+    </Popover>
+  );
+});
@@ -0,0 +1,42 @@
+import React from 'react';
+import { ArrowDownUp } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { SWATCH_SORTS, SwatchSortKey } from "@/lib/palette-order";
+
+interface SwatchSortMenuProps {
+  customOrder: boolean;
+  onSort: (key: SwatchSortKey) => void;
+  onReset: () => void;
+}
+
+/**
+ * Menu sorting the swatches by lightness, hue, chroma or contrast, or
+ * putting them back in the generated order.
+**/
+export const SwatchSortMenu = React.memo(({ customOrder, onSort, onReset }: SwatchSortMenuProps) => (
+  <DropdownMenu>
+    <DropdownMenuTrigger asChild>
+      <Button
+        size="icon"
+        variant={customOrder ? 'secondary' : 'outline'}
+        className="size-7"
+        aria-label="Sort swatches"
+        title={customOrder ? "Sort swatches (custom order)" : "Sort swatches"}
+      >
+        <ArrowDownUp className="size-3.5" />
+      </Button>
+    </DropdownMenuTrigger>
+    <DropdownMenuContent align="end" className="w-56">
+      {SWATCH_SORTS.map(sort => (
+        <DropdownMenuItem key={sort.value} onSelect={() => onSort(sort.value)} className="text-xs">
+          {sort.label}
+        </DropdownMenuItem>
+      ))}
+      <DropdownMenuSeparator />
+      <DropdownMenuItem onSelect={onReset} disabled={!customOrder} className="text-xs">
+        Generated order
+      </DropdownMenuItem>
+    </DropdownMenuContent>
+  </DropdownMenu>
+));
@@ -0,0 +1,56 @@
+import { useEffect, useMemo, useState } from 'react';
+import { ColorNameIndex, ColorNameMatch, ColorNameSource, findNearestColorName, getCssColorNameIndex, loadColorNameIndex } from '@/lib/color-names';
+
+// Most name matches remembered per name list
+const MAX_CACHED_MATCHES = 256;
+
+/**
+ * Custom hook returning the nearest color name for each color. CSS names are
+ * available straight away; the extended list is loaded on demand and CSS
+ * names are shown until it arrives.
+ *
+ * @returns An object containing:
+ *  - `names`: The nearest name match for each color, in order.
+ *  - `loading`: Whether the requested name list is still loading.
+**/
+export function useColorNames(colors: string[], source: ColorNameSource) {
+  const [index, setIndex] = useState<ColorNameIndex>(getCssColorNameIndex);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    loadColorNameIndex(source)
+      .then(loaded => {
+        if (!cancelled) {
+          setIndex(loaded);
+        }
+      })
+      .catch(error => {
+        console.error("Failed to load color names:", error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [source]);
+
+  // Matches already found with this index, so a palette change only looks up the colors that changed
+  const matches = useMemo(() => new Map<string, ColorNameMatch>(), [index]);
+
+  const names = useMemo<ColorNameMatch[]>(() => {
+    return colors.map(color => {
+      let match = matches.get(color);
+      if (!match) {
+        // Dragging an editor slider passes through many colors; start over rather than keep them all
+        if (matches.size >= MAX_CACHED_MATCHES) {
+          matches.clear();
+        }
+        match = findNearestColorName(color, index);
+        matches.set(color, match);
+      }
+      return match;
+    });
+  }, [colors, index, matches]);
+
+  return { names, loading: index.source !== source };
+}
@@ -0,0 +1,91 @@
+import { useCallback, useReducer } from 'react';
+
+/**
+ * One recorded state, with a short description of the change that led to it.
+ */
+export interface HistoryEntry<T> {
+  state: T;
+  label: string;
+  time: number; // When the entry was recorded (ms since epoch)
+}
+
+// Define state interface
+interface HistoryState<T> {
+  entries: HistoryEntry<T>[];
+  index: number; // The entry currently shown, -1 before anything is recorded
+}
+
+// Define action types
+type HistoryAction<T> =
+  | { type: 'RECORD', payload: { entry: HistoryEntry<T>; limit: number; coalesce: boolean } }
+  | { type: 'JUMP', payload: number };
+
+// Reducer function for handling history updates
+function historyReducer<T>(state: HistoryState<T>, action: HistoryAction<T>): HistoryState<T> {
+  switch (action.type) {
+    case 'RECORD': {
+      const { entry, limit, coalesce } = action.payload;
+      const current = state.entries[state.index];
+
+      // A repeat of the same change replaces the latest entry instead of adding one
+      if (coalesce && current && current.label === entry.label && state.index === state.entries.length - 1) {
+        return { ...state, entries: [...state.entries.slice(0, state.index), entry] };
+      }
+
+      // Recording after an undo drops the entries that could have been redone
+      const entries = [...state.entries.slice(0, state.index + 1), entry].slice(-limit);
+      return { entries, index: entries.length - 1 };
+    }
+    case 'JUMP':
+      return action.payload >= 0 && action.payload < state.entries.length
+        ? { ...state, index: action.payload }
+        : state;
+    default:
+      return state;
+  }
+}
+
+/**
+ * Custom hook keeping a bounded list of states to undo and redo through.
+ * The hook only tracks entries; the caller records each new state and applies
+ * the state of the entry it moves to.
+ *
+ * @returns An object containing:
+ *  - `entries`: Every recorded entry, oldest first.
+ *  - `index`: The position of the current entry in `entries`.
+ *  - `current`: The current entry, if any.
+ *  - `canUndo` / `canRedo`: Whether there is an entry before / after the current one.
+ *  - `record`: A function to add a new state after the current one. With `coalesce`,
+ *    a quick repeat of the latest entry's change (dragging a slider) replaces it.
+ *  - `jumpTo`: A function to make another entry current, returning it.
+ */
+export function useHistory<T>(limit: number = 50, coalesceMs: number = 1000) {
+  const [state, dispatch] = useReducer(historyReducer<T>, { entries: [], index: -1 });
+
+  const record = useCallback((value: T, label: string, coalesce: boolean = false) => {
+    const time = Date.now();
+    const latest = state.entries[state.index];
+    dispatch({
+      type: 'RECORD',
+      payload: { entry: { state: value, label, time }, limit, coalesce: coalesce && !!latest && time - latest.time < coalesceMs }
+    });
+  }, [coalesceMs, limit, state.entries, state.index]);
+
+  const jumpTo = useCallback((index: number): HistoryEntry<T> | undefined => {
+    const entry = state.entries[index];
+    if (entry) {
+      dispatch({ type: 'JUMP', payload: index });
+    }
+    return entry;
+  }, [state.entries]);
+
+  return {
+    entries: state.entries,
+    index: state.index,
+    current: state.entries[state.index] as HistoryEntry<T> | undefined,
+    canUndo: state.index > 0,
+    canRedo: state.index < state.entries.length - 1,
+    record,
+    jumpTo
+  };
+}
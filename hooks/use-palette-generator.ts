@@ -1,5 +1,6 @@
 import { useCallback, useMemo, useReducer } from 'react';
-import { generatePalette, PaletteType, getContrastColor } from '@/lib/colors';
+import { generatePaletteDetailed, GeneratedPalette, GenerationSpace, PaletteOptions, PaletteType } from '@/lib/colors';
+import { ContrastAdjustment, ContrastEnforcement, enforcePaletteContrast, getContrastColor } from '@/lib/contrast';
 
 /**
  * Interface defining the structure for storing generated palette colors
@@ -8,18 +9,34 @@ import { generatePalette, PaletteType, getContrastColor } from '@/lib/colors';
 interface PaletteColors {
   colors: string[]; // Array of hex color strings in the palette
   textColors: string[]; // Array of hex color strings suitable for text on the corresponding palette color
+  gamutMapped: boolean[]; // Whether each color had to be gamut-mapped into sRGB
+  adjustments: ContrastAdjustment[]; // Contrast fixes per color, empty when enforcement is off
 }
 
+/**
+ * Generation options: the core palette options plus an optional contrast
+ * target every generated swatch is adjusted to meet.
+ */
+export interface PaletteGenerationOptions extends PaletteOptions {
+  enforceContrast?: ContrastEnforcement;
+}
+
+// Most palettes kept in the cache; the least recently used one is dropped beyond that
+const PALETTE_CACHE_SIZE = 50;
+
 // Define state interface
 interface PaletteGeneratorState {
   palette: PaletteColors;
+  overrides: (string | null)[]; // Hand-edited colors by swatch index, null where the generated color shows
   loading: boolean;
 }
 
 // Define action types
 type PaletteGeneratorAction = 
   | { type: 'SET_LOADING', payload: boolean }
-  | { type: 'SET_PALETTE', payload: PaletteColors };
+  | { type: 'SET_PALETTE', payload: PaletteColors }
+  | { type: 'SET_OVERRIDE', payload: { index: number; color: string | null } }
+  | { type: 'SET_OVERRIDES', payload: (string | null)[] };
 
 // Reducer function for handling complex state logic
 function paletteReducer(state: PaletteGeneratorState, action: PaletteGeneratorAction): PaletteGeneratorState {
@@ -28,6 +45,14 @@ function paletteReducer(state: PaletteGeneratorState, action: PaletteGeneratorAc
       return { ...state, loading: action.payload };
     case 'SET_PALETTE':
       return { ...state, palette: action.payload };
+    case 'SET_OVERRIDE': {
+      const { index, color } = action.payload;
+      const overrides = Array.from({ length: Math.max(state.overrides.length, index + 1) }, (_, i) => state.overrides[i] ?? null);
+      overrides[index] = color;
+      return { ...state, overrides };
+    }
+    case 'SET_OVERRIDES':
+      return { ...state, overrides: action.payload };
     default:
       return state;
   }
@@ -37,41 +62,56 @@ function paletteReducer(state: PaletteGeneratorState, action: PaletteGeneratorAc
  * Custom hook for generating color palettes based on a base color and type.
  * It handles asynchronous generation, loading states, and caching of results.
  *
+ * Swatches can be edited by hand: an override replaces the generated color at
+ * its index, through every regeneration, until it is reset.
+ *
  * @returns An object containing:
- *  - `palette`: An array of hex color strings for the generated palette.
+ *  - `palette`: An array of hex color strings for the palette, overrides applied.
+ *  - `generatedPalette`: The palette as generated, without overrides.
+ *  - `overrides`: Hand-edited colors by swatch index, null for generated swatches.
  *  - `textColors`: An array of hex color strings for contrasting text on each palette color.
+ *  - `gamutMapped`: Whether each palette color was gamut-mapped into sRGB.
+ *  - `adjustments`: How each color was moved to meet the contrast target, if enforced.
  *  - `loading`: A boolean indicating if palette generation is in progress.
  *  - `generatePaletteWithType`: A function to trigger palette generation.
+ *  - `setPaletteColors`: A function to show a given list of colors as the palette.
+ *  - `setOverride`: A function to override one swatch's color, or reset it with null.
+ *  - `setOverrides`: A function to replace every override at once.
  */
 export function usePaletteGenerator() {
   // Use reducer for complex state management
   const [state, dispatch] = useReducer(paletteReducer, {
-    palette: { colors: [], textColors: [] },
+    palette: { colors: [], textColors: [], gamutMapped: [], adjustments: [] },
+    overrides: [],
     loading: false
   });
 
   /**
    * Memoized cache (Map) to store previously generated palettes.
-   * The key is a combination of the base color and palette type.
-   * This prevents redundant calculations for the same inputs.
+   * The key is a combination of every generation input.
+   * This prevents redundant calculations for the same inputs. The Map keeps
+   * insertion order, so entries are moved to the end when used and the first
+   * one is the least recently used.
    */
   const cachedResults = useMemo(() => {
     return new Map<string, PaletteColors>();
   }, []);
 
   /**
-   * Asynchronously generates a palette using the core `generatePalette` function.
+   * Asynchronously generates a palette using the core `generatePaletteDetailed` function.
    * Wrapped in useCallback for memoization. Includes a minimal delay (0ms)
    * to ensure the function behaves asynchronously, allowing loading states to update.
    */
   const generatePaletteAsync = useCallback(async (
     baseColor: string,
     type: PaletteType,
-    swatchCount: number = 5
-  ): Promise<string[]> => {
+    swatchCount: number = 5,
+    colorSpace: GenerationSpace = 'hsl',
+    options: PaletteOptions = {}
+  ): Promise<GeneratedPalette> => {
     // Introduce a minimal delay to ensure asynchronous behavior for loading state updates
     await new Promise(resolve => setTimeout(resolve, 0));
-    return generatePalette(baseColor, type, swatchCount);
+    return generatePaletteDetailed(baseColor, type, swatchCount, colorSpace, options);
   }, []);
 
   /**
@@ -84,15 +124,19 @@ export function usePaletteGenerator() {
   const generatePaletteWithType = useCallback(async (
     baseColor: string,
     type: PaletteType,
-    swatchCount: number = 5
+    swatchCount: number = 5,
+    colorSpace: GenerationSpace = 'hsl',
+    options: PaletteGenerationOptions = {}
   ) => {
-    // Create a unique key for caching based on input color, palette type, and swatch count
-    const cacheKey = `${baseColor}-${type}-${swatchCount}`;
+    // Create a unique key for caching based on every input that affects the result
+    const cacheKey = `${baseColor}-${type}-${swatchCount}-${colorSpace}-${JSON.stringify(options)}`;
 
     // Check if the result is already in the cache
     if (cachedResults.has(cacheKey)) {
       // If cached, retrieve and set the state, then return the colors
       const cachedPalette = cachedResults.get(cacheKey)!;
+      cachedResults.delete(cacheKey);
+      cachedResults.set(cacheKey, cachedPalette);
       dispatch({ type: 'SET_PALETTE', payload: cachedPalette });
       return cachedPalette.colors;
     }
@@ -103,16 +147,29 @@ export function usePaletteGenerator() {
       dispatch({ type: 'SET_LOADING', payload: true });
 
       // Generate the palette colors asynchronously
-      const colors = await generatePaletteAsync(baseColor, type, swatchCount);
+      const generated = await generatePaletteAsync(baseColor, type, swatchCount, colorSpace, options);
 
-      // Calculate the appropriate text color (black or white) for each palette color
+      // Nudge swatches in lightness until they meet the contrast target, if one is set;
+      // locked swatches keep their color
+      const lockedIndices = (options.locked ?? []).flatMap((color, index) => color ? [index] : []);
+      const adjustments = options.enforceContrast
+        ? enforcePaletteContrast(generated.colors, options.enforceContrast, lockedIndices)
+        : [];
+      const colors = options.enforceContrast
+        ? adjustments.map(adjustment => adjustment.color)
+        : generated.colors;
+
+      // Pick the text color (black or white) with the higher WCAG contrast for each palette color
       const textColors = colors.map(color => getContrastColor(color));
 
-      // Combine colors and text colors into the result object
-      const result = { colors, textColors };
+      // Combine colors, text colors and generation details into the result object
+      const result = { colors, textColors, gamutMapped: generated.gamutMapped, adjustments };
 
-      // Store the newly generated result in the cache
+      // Store the newly generated result in the cache, dropping the least recently used one when full
       cachedResults.set(cacheKey, result);
+      if (cachedResults.size > PALETTE_CACHE_SIZE) {
+        cachedResults.delete(cachedResults.keys().next().value!);
+      }
       
       // Update the component's state with the new palette
       dispatch({ type: 'SET_PALETTE', payload: result });
@@ -130,11 +187,78 @@ export function usePaletteGenerator() {
     }
   }, [cachedResults, generatePaletteAsync]); // Dependencies for useCallback
 
+  /**
+   * Shows a palette that didn't come from a generator (an image, a shared
+   * list of colors), applying the same contrast enforcement and text colors.
+   * Swatches at `fixedIndices` (ones already shown) are kept as they are.
+   */
+  const setPaletteColors = useCallback((
+    paletteColors: string[],
+    options: PaletteGenerationOptions = {},
+    fixedIndices: number[] = []
+  ) => {
+    const adjustments = options.enforceContrast
+      ? enforcePaletteContrast(paletteColors, options.enforceContrast, fixedIndices)
+      : [];
+    const colors = options.enforceContrast
+      ? adjustments.map(adjustment => adjustment.color)
+      : paletteColors;
+
+    dispatch({
+      type: 'SET_PALETTE',
+      payload: {
+        colors,
+        textColors: colors.map(color => getContrastColor(color)),
+        gamutMapped: colors.map(() => false),
+        adjustments
+      }
+    });
+
+    return colors;
+  }, []);
+
+  /**
+   * Overrides the color of the swatch at `index`, or goes back to the generated color with null.
+   */
+  const setOverride = useCallback((index: number, color: string | null) => {
+    dispatch({ type: 'SET_OVERRIDE', payload: { index, color } });
+  }, []);
+
+  const setOverrides = useCallback((overrides: (string | null)[]) => {
+    dispatch({ type: 'SET_OVERRIDES', payload: overrides });
+  }, []);
+
+  /**
+   * The palette as shown: generated colors with overrides on top. Without
+   * overrides the generated arrays are returned as they are.
+   */
+  const merged = useMemo(() => {
+    const { colors, textColors, gamutMapped } = state.palette;
+    if (!state.overrides.some((color, index) => color && index < colors.length)) {
+      return { colors, textColors, gamutMapped };
+    }
+    return {
+      colors: colors.map((color, index) => state.overrides[index] ?? color),
+      textColors: textColors.map((textColor, index) => {
+        const override = state.overrides[index];
+        return override ? getContrastColor(override) : textColor;
+      }),
+      gamutMapped: gamutMapped.map((mapped, index) => !state.overrides[index] && mapped)
+    };
+  }, [state.palette, state.overrides]);
+
   // Return the hook's public API
   return {
-    palette: state.palette.colors, // The generated palette colors
-    textColors: state.palette.textColors, // Corresponding text colors
+    palette: merged.colors, // The palette colors, overrides applied
+    generatedPalette: state.palette.colors, // The generated colors, without overrides
+    overrides: state.overrides, // Hand-edited colors by swatch index
+    textColors: merged.textColors, // Corresponding text colors
+    gamutMapped: merged.gamutMapped, // Gamut-mapping flags per color
+    adjustments: state.palette.adjustments, // Contrast adjustments per color
     loading: state.loading, // Loading state indicator
-    generatePaletteWithType // Function to trigger generation
+    generatePaletteWithType, // Function to trigger generation
+    setPaletteColors, // Function to show a given list of colors
+    setOverride, // Function to override or reset one swatch
+    setOverrides // Function to replace all overrides
   };
 }
\ No newline at end of file
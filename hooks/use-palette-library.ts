@@ -0,0 +1,54 @@
+import { useCallback, useEffect, useState } from 'react';
+import { SavedPalette, deleteSavedPalette, duplicateSavedPalette, listSavedPalettes, putSavedPalette } from '@/lib/palette-library';
+
+/**
+ * Custom hook keeping the saved-palette library in IndexedDB and a copy of it
+ * in state. Every action writes to the database first and rejects if that
+ * fails, leaving the state as it was.
+ *
+ * @returns An object containing:
+ *  - `palettes`: The saved palettes, most recently updated first.
+ *  - `loading`: Whether the library is still being read.
+ *  - `error`: Why the library couldn't be read, if it couldn't.
+ *  - `save`: A function to add a palette, or replace the one with its id.
+ *  - `update`: A function to change a palette's name or tags.
+ *  - `duplicate`: A function to save a copy of a palette under a new id.
+ *  - `remove`: A function to delete a palette.
+ */
+export function usePaletteLibrary() {
+  const [palettes, setPalettes] = useState<SavedPalette[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    listSavedPalettes()
+      .then(setPalettes)
+      .catch((reason) => {
+        console.error("Failed to read the palette library:", reason);
+        setError(reason instanceof Error ? reason.message : 'The palette library could not be opened');
+      })
+      .finally(() => setLoading(false));
+  }, []);
+
+  const save = useCallback(async (palette: SavedPalette) => {
+    await putSavedPalette(palette);
+    setPalettes(prev => [palette, ...prev.filter(saved => saved.id !== palette.id)]);
+  }, []);
+
+  const update = useCallback(async (palette: SavedPalette, changes: Partial<Pick<SavedPalette, 'name' | 'tags'>>) => {
+    await save({ ...palette, ...changes, updatedAt: Date.now() });
+  }, [save]);
+
+  const duplicate = useCallback(async (palette: SavedPalette) => {
+    const copy = duplicateSavedPalette(palette);
+    await save(copy);
+    return copy;
+  }, [save]);
+
+  const remove = useCallback(async (id: string) => {
+    await deleteSavedPalette(id);
+    setPalettes(prev => prev.filter(saved => saved.id !== id));
+  }, []);
+
+  return { palettes, loading, error, save, update, duplicate, remove };
+}
@@ -0,0 +1,76 @@
+import { deltaE2000, hexToLab, Lab } from '@/lib/colors';
+import { CSS_NAMED_COLORS } from '@/lib/css-named-colors';
+
+// 'css' is the 148 CSS named colors, 'extended' the bundled color-name-list "best of" set
+export type ColorNameSource = 'css' | 'extended';
+
+export interface ColorName {
+  name: string;
+  hex: string;
+}
+
+export interface ColorNameMatch extends ColorName {
+  // CIEDE2000 distance from the color that was looked up
+  deltaE: number;
+}
+
+// A list of names with their Lab values precomputed for lookups
+export interface ColorNameIndex {
+  source: ColorNameSource;
+  names: ColorName[];
+  labs: Lab[];
+}
+
+const createColorNameIndex = (source: ColorNameSource, names: ColorName[]): ColorNameIndex => ({
+  source,
+  names,
+  labs: names.map(({ hex }) => hexToLab(hex))
+});
+
+let cssIndex: ColorNameIndex | null = null;
+let extendedIndex: Promise<ColorNameIndex> | null = null;
+
+export const getCssColorNameIndex = (): ColorNameIndex => {
+  cssIndex ??= createColorNameIndex(
+    'css',
+    Object.entries(CSS_NAMED_COLORS).map(([name, hex]) => ({ name, hex }))
+  );
+  return cssIndex;
+};
+
+/**
+ * Resolves the index for a name source. The extended list (about 5,000 names)
+ * ships as its own chunk and is only fetched the first time it is asked for,
+ * so it works offline once the app is loaded.
+**/
+export const loadColorNameIndex = (source: ColorNameSource): Promise<ColorNameIndex> => {
+  if (source === 'css') {
+    return Promise.resolve(getCssColorNameIndex());
+  }
+
+  extendedIndex ??= import('color-name-list/bestof')
+    .then(({ colornames }) => createColorNameIndex('extended', colornames))
+    .catch((error) => {
+      // Let the next call try again
+      extendedIndex = null;
+      throw error;
+    });
+  return extendedIndex;
+};
+
+// The perceptually closest name in the index, by CIEDE2000
+export const findNearestColorName = (hexColor: string, index: ColorNameIndex): ColorNameMatch => {
+  const lab = hexToLab(hexColor);
+  let nearest = 0;
+  let nearestDistance = Infinity;
+
+  index.labs.forEach((candidate, i) => {
+    const distance = deltaE2000(lab, candidate);
+    if (distance < nearestDistance) {
+      nearest = i;
+      nearestDistance = distance;
+    }
+  });
+
+  return { ...index.names[nearest], deltaE: nearestDistance };
+};
@@ -0,0 +1,155 @@
+import { describe, expect, it } from 'vitest';
+import {
+  deltaE2000,
+  formatDisplayP3,
+  gamutMap,
+  generateAnchoredPalette,
+  generatePalette,
+  getPaletteGenerators,
+  hexToLab,
+  hexToOklch,
+  isInGamut,
+  parseColor,
+  seededAnchorColor,
+  seededHexColor,
+  spreadSwatches
+} from '@/lib/colors';
+
+describe('parseColor', () => {
+  it('reads hex, named and functional colors as sRGB hex', () => {
+    for (const input of ['#ff0000', '#f00', 'f00', 'red', 'RED', 'rgb(255 0 0)', 'rgb(255, 0, 0)', 'hsl(0deg 100% 50%)', 'hwb(0 0% 0%)', 'color(srgb 1 0 0)']) {
+      expect(parseColor(input)).toEqual({ valid: true, hex: '#ff0000', alpha: 1 });
+    }
+  });
+
+  it('reads OKLCH and Lab close to the color they name', () => {
+    expect(parseColor('oklch(62.8% 0.2577 29.23)')).toMatchObject({ valid: true, hex: '#ff0000' });
+    expect(parseColor('lab(54.29 80.8 69.89)')).toMatchObject({ valid: true, hex: '#ff0000' });
+  });
+
+  it('keeps translucency as #rrggbbaa', () => {
+    expect(parseColor('rgb(0 0 255 / 50%)')).toEqual({ valid: true, hex: '#0000ff80', alpha: 0.5 });
+    expect(parseColor('#0000ff80')).toMatchObject({ valid: true, alpha: expect.closeTo(0.5, 2) });
+  });
+
+  it('gamut-maps colors outside sRGB instead of rejecting them', () => {
+    expect(parseColor('color(display-p3 0 1 0)')).toMatchObject({ valid: true, hex: expect.stringMatching(/^#[0-9a-f]{6}$/), alpha: 1 });
+  });
+
+  it('explains what is wrong with invalid input', () => {
+    for (const input of ['', 'notacolor', '#12', 'rgb(255 0', 'oklch(50% 0.1)']) {
+      const result = parseColor(input);
+      expect(result.valid).toBe(false);
+      expect(result.valid ? '' : result.error).not.toBe('');
+    }
+  });
+});
+
+describe('gamutMap', () => {
+  it('leaves colors inside the gamut as they are', () => {
+    const { r, g, b } = gamutMap(hexToOklch('#3b82f6'));
+    expect([r * 255, g * 255, b * 255].map(Math.round)).toEqual([0x3b, 0x82, 0xf6]);
+  });
+
+  it('brings colors outside the gamut inside it, keeping lightness and hue', () => {
+    const vivid = { l: 0.7, c: 0.35, h: 150 };
+    expect(isInGamut(vivid)).toBe(false);
+
+    const { r, g, b } = gamutMap(vivid);
+    for (const channel of [r, g, b]) {
+      expect(channel).toBeGreaterThanOrEqual(0);
+      expect(channel).toBeLessThanOrEqual(1);
+    }
+    const mapped = hexToOklch(`#${[r, g, b].map(channel => Math.round(channel * 255).toString(16).padStart(2, '0')).join('')}`);
+    expect(mapped.l).toBeCloseTo(0.7, 1);
+    expect(Math.abs(mapped.h - 150)).toBeLessThan(5);
+  });
+
+  it('maps to the wider Display-P3 gamut when asked', () => {
+    const vivid = { l: 0.7, c: 0.25, h: 150 };
+    expect(isInGamut(vivid, 'srgb')).toBe(false);
+    expect(isInGamut(vivid, 'display-p3')).toBe(true);
+  });
+});
+
+describe('formatDisplayP3', () => {
+  it('writes sRGB primaries at their P3 coordinates', () => {
+    expect(formatDisplayP3(hexToOklch('#ffffff'))).toBe('color(display-p3 1 1 1)');
+    expect(formatDisplayP3(hexToOklch('#ff0000'))).toMatch(/^color\(display-p3 0\.91\d* 0\.2\d* 0\.1\d*\)$/);
+  });
+});
+
+describe('deltaE2000', () => {
+  // Reference pairs from Sharma, Wu and Dalal, "The CIEDE2000 color-difference formula"
+  it.each([
+    [{ l: 50, a: 2.6772, b: -79.7751 }, { l: 50, a: 0, b: -82.7485 }, 2.0425],
+    [{ l: 50, a: 0, b: 0 }, { l: 50, a: -1, b: 2 }, 2.3669],
+    [{ l: 50, a: 2.5, b: 0 }, { l: 73, a: 25, b: -18 }, 27.1492],
+    [{ l: 60.2574, a: -34.0099, b: 36.2677 }, { l: 60.4626, a: -34.1751, b: 39.4387 }, 1.2644]
+  ])('matches the reference difference %#', (first, second, expected) => {
+    expect(deltaE2000(first, second)).toBeCloseTo(expected, 4);
+    expect(deltaE2000(second, first)).toBeCloseTo(expected, 4);
+  });
+});
+
+describe('spreadSwatches', () => {
+  const pairDistances = (colors: string[]) => colors.flatMap((color, index) =>
+    colors.slice(index + 1).map(other => deltaE2000(hexToLab(color), hexToLab(other))));
+
+  it('moves colliding swatches at least the minimum distance apart', () => {
+    const spread = spreadSwatches(['#3b82f6', '#3b82f6', '#3c83f7', '#3b82f6'], 10);
+    expect(Math.min(...pairDistances(spread))).toBeGreaterThanOrEqual(10);
+  });
+
+  it('never moves the fixed swatches', () => {
+    const spread = spreadSwatches(['#3b82f6', '#3b82f6', '#3b82f6'], 10, 'auto', 'hsl', [1, 2]);
+    expect(spread[1]).toBe('#3b82f6');
+    expect(spread[2]).toBe('#3b82f6');
+    expect(spread[0]).not.toBe('#3b82f6');
+  });
+
+  it('only separates exact duplicates without a minimum distance', () => {
+    expect(spreadSwatches(['#3b82f6', '#3c83f7'], 0)).toEqual(['#3b82f6', '#3c83f7']);
+    expect(new Set(spreadSwatches(['#3b82f6', '#3b82f6'], 0)).size).toBe(2);
+  });
+});
+
+describe('generatePalette', () => {
+  // Grays and the extremes collapse most harmonies onto a few colors
+  it.each(['#808080', '#ffffff', '#000000', '#3b82f6'])('never repeats a swatch for %s', (base) => {
+    for (const { id } of getPaletteGenerators()) {
+      for (const colorSpace of ['hsl', 'oklch'] as const) {
+        for (const minDistance of [0, 5]) {
+          const colors = generatePalette(base, id, 32, colorSpace, { minDistance });
+          expect(new Set(colors).size, `${id} in ${colorSpace} at ${minDistance}`).toBe(colors.length);
+        }
+      }
+    }
+  });
+});
+
+describe('generateAnchoredPalette', () => {
+  it('keeps every anchor unchanged and in order', () => {
+    const anchors = ['#3b82f6', '#f97316', '#22c55e'];
+    const { colors, anchorIndices } = generateAnchoredPalette(anchors, 'analogous', 8);
+    expect(colors).toHaveLength(8);
+    expect(anchorIndices.map(index => colors[index])).toEqual(anchors);
+    expect(anchorIndices).toEqual([...anchorIndices].sort((a, b) => a - b));
+  });
+
+  it('gives exactly as many swatches as anchors when there is no room for more', () => {
+    expect(generateAnchoredPalette(['#3b82f6', '#f97316'], 'analogous', 2).colors).toEqual(['#3b82f6', '#f97316']);
+  });
+
+  it('rejects more anchors than swatches', () => {
+    expect(() => generateAnchoredPalette(['#3b82f6', '#f97316', '#22c55e'], 'analogous', 2)).toThrow(RangeError);
+  });
+});
+
+describe('seededAnchorColor', () => {
+  it('draws the same colors from the same seed, none of them the base color', () => {
+    const anchors = [0, 1, 2].map(index => seededAnchorColor(42, index));
+    expect([0, 1, 2].map(index => seededAnchorColor(42, index))).toEqual(anchors);
+    expect(new Set([seededHexColor(42), ...anchors]).size).toBe(4);
+  });
+});
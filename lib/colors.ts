@@ -1,5 +1,7 @@
+import { CSS_NAMED_COLORS } from '@/lib/css-named-colors';
+
 export const hexToHSL = (hexColor: string): { h: number; s: number; l: number } => {
-  const hex = hexColor.replace('#', '');
+  const hex = standardizeHexColor(hexColor).replace('#', '');
   
   const r = parseInt(hex.substring(0, 2), 16) / 255;
   const g = parseInt(hex.substring(2, 4), 16) / 255;
@@ -63,30 +65,1116 @@ export const hslToHex = (h: number, s: number, l: number): string => {
 };
 
 export const isValidHexColor = (color: string): boolean => {
-  return /^#?([0-9A-F]{3}|[0-9A-F]{6})$/i.test(color);
+  return /^#?([0-9A-F]{3,4}|[0-9A-F]{6}|[0-9A-F]{8})$/i.test(color);
 };
 
 export const standardizeHexColor = (color: string): string => {
   const hex = color.startsWith('#') ? color : `#${color}`;
   
-  if (hex.length === 4) {
-    return `#${hex[1]}${hex[1]}${hex[2]}${hex[2]}${hex[3]}${hex[3]}`;
+  if (hex.length === 4 || hex.length === 5) {
+    return standardizeHexColor(`#${hex.substring(1).split('').map(digit => digit + digit).join('')}`);
+  }
+
+  // A fully opaque alpha byte is dropped so every opaque color has one spelling
+  if (hex.length === 9 && /ff$/i.test(hex)) {
+    return hex.substring(0, 7);
   }
   
   return hex;
 };
 
-export type PaletteType = 
-  | 'monochromatic'
-  | 'analogous'
-  | 'complementary'
-  | 'triadic'
-  | 'tetradic'
-  | 'split-complementary';
+export const getAlpha = (hexColor: string): number => {
+  const hex = standardizeHexColor(hexColor);
+  return hex.length === 9 ? parseInt(hex.substring(7, 9), 16) / 255 : 1;
+};
+
+export const isTranslucent = (hexColor: string): boolean => getAlpha(hexColor) < 1;
+
+// Returns the color with the given alpha, as #rrggbb when opaque and #rrggbbaa otherwise
+export const withAlpha = (hexColor: string, alpha: number): string => {
+  const opaque = standardizeHexColor(hexColor).substring(0, 7);
+  const byte = Math.round(Math.min(1, Math.max(0, alpha)) * 255);
+
+  if (byte === 255) {
+    return opaque;
+  }
+
+  return `${opaque}${byte.toString(16).padStart(2, '0')}`;
+};
+
+export type ColorFormat = 'hex' | 'hsl' | 'oklch' | 'p3';
+
+export interface RGB {
+  r: number;
+  g: number;
+  b: number;
+}
+
+export interface OKLab {
+  l: number;
+  a: number;
+  b: number;
+}
+
+export interface OKLCH {
+  l: number;
+  c: number;
+  h: number;
+}
+
+// Below this chroma the hue is powerless and is reported as 0 / serialized as `none`
+const ACHROMATIC_CHROMA = 0.0001;
+
+export const isAchromatic = (color: OKLCH): boolean => color.c < ACHROMATIC_CHROMA;
+
+export const hexToRgb = (hexColor: string): RGB => {
+  const hex = standardizeHexColor(hexColor).replace('#', '');
+
+  return {
+    r: parseInt(hex.substring(0, 2), 16) / 255,
+    g: parseInt(hex.substring(2, 4), 16) / 255,
+    b: parseInt(hex.substring(4, 6), 16) / 255
+  };
+};
+
+export const rgbToHex = ({ r, g, b }: RGB): string => {
+  const toHex = (x: number) => {
+    const hex = Math.round(Math.min(1, Math.max(0, x)) * 255).toString(16);
+    return hex.length === 1 ? '0' + hex : hex;
+  };
+
+  return `#${toHex(r)}${toHex(g)}${toHex(b)}`;
+};
+
+// sRGB transfer functions, sign-preserving so out-of-gamut values survive a round trip
+export const srgbToLinear = (channel: number): number => {
+  const abs = Math.abs(channel);
+  const linear = abs <= 0.04045 ? abs / 12.92 : Math.pow((abs + 0.055) / 1.055, 2.4);
+  return Math.sign(channel) * linear;
+};
+
+export const linearToSrgb = (channel: number): number => {
+  const abs = Math.abs(channel);
+  const encoded = abs <= 0.0031308 ? abs * 12.92 : 1.055 * Math.pow(abs, 1 / 2.4) - 0.055;
+  return Math.sign(channel) * encoded;
+};
+
+export const rgbToLinearRgb = ({ r, g, b }: RGB): RGB => ({
+  r: srgbToLinear(r),
+  g: srgbToLinear(g),
+  b: srgbToLinear(b)
+});
+
+export const linearRgbToRgb = ({ r, g, b }: RGB): RGB => ({
+  r: linearToSrgb(r),
+  g: linearToSrgb(g),
+  b: linearToSrgb(b)
+});
+
+// Matrices from Björn Ottosson's OKLab reference implementation
+export const linearRgbToOklab = ({ r, g, b }: RGB): OKLab => {
+  const l = Math.cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b);
+  const m = Math.cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b);
+  const s = Math.cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b);
+
+  return {
+    l: 0.2104542553 * l + 0.7936177850 * m - 0.0040720468 * s,
+    a: 1.9779984951 * l - 2.4285922050 * m + 0.4505937099 * s,
+    b: 0.0259040371 * l + 0.7827717662 * m - 0.8086757660 * s
+  };
+};
+
+export const oklabToLinearRgb = ({ l: L, a, b: B }: OKLab): RGB => {
+  const l = Math.pow(L + 0.3963377774 * a + 0.2158037573 * B, 3);
+  const m = Math.pow(L - 0.1055613458 * a - 0.0638541728 * B, 3);
+  const s = Math.pow(L - 0.0894841775 * a - 1.2914855480 * B, 3);
+
+  return {
+    r: 4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s,
+    g: -1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s,
+    b: -0.0041960863 * l - 0.7034186147 * m + 1.7076147010 * s
+  };
+};
+
+export const oklabToOklch = ({ l, a, b }: OKLab): OKLCH => {
+  const c = Math.sqrt(a * a + b * b);
+
+  if (c < ACHROMATIC_CHROMA) {
+    return { l, c: 0, h: 0 };
+  }
+
+  const h = (Math.atan2(b, a) * 180) / Math.PI;
+  return { l, c, h: (h + 360) % 360 };
+};
+
+export const oklchToOklab = ({ l, c, h }: OKLCH): OKLab => {
+  const radians = (h * Math.PI) / 180;
+  return {
+    l,
+    a: c * Math.cos(radians),
+    b: c * Math.sin(radians)
+  };
+};
+
+export const rgbToOklab = (rgb: RGB): OKLab => linearRgbToOklab(rgbToLinearRgb(rgb));
+
+export const oklabToRgb = (lab: OKLab): RGB => linearRgbToRgb(oklabToLinearRgb(lab));
+
+export const hexToOklab = (hexColor: string): OKLab => rgbToOklab(hexToRgb(hexColor));
+
+export const hexToOklch = (hexColor: string): OKLCH => oklabToOklch(hexToOklab(hexColor));
+
+export const oklabToHex = (lab: OKLab): string => rgbToHex(oklabToRgb(lab));
+
+export const oklchToHex = (lch: OKLCH): string => oklabToHex(oklchToOklab(lch));
+
+type Matrix3 = [
+  [number, number, number],
+  [number, number, number],
+  [number, number, number]
+];
+
+const multiplyMatrix = (m: Matrix3, [x, y, z]: [number, number, number]): [number, number, number] => [
+  m[0][0] * x + m[0][1] * y + m[0][2] * z,
+  m[1][0] * x + m[1][1] * y + m[1][2] * z,
+  m[2][0] * x + m[2][1] * y + m[2][2] * z
+];
+
+// Matrices and transfer functions follow the CSS Color 4 sample code
+const XYZ_D65_TO_LINEAR_SRGB: Matrix3 = [
+  [12831 / 3959, -329 / 214, -1974 / 3959],
+  [-851781 / 878810, 1648619 / 878810, 36519 / 878810],
+  [705 / 12673, -2585 / 12673, 705 / 667]
+];
+
+const LINEAR_SRGB_TO_XYZ_D65: Matrix3 = [
+  [506752 / 1228815, 87881 / 245763, 12673 / 70218],
+  [87098 / 409605, 175762 / 245763, 12673 / 175545],
+  [7918 / 409605, 87881 / 737289, 1001167 / 1053270]
+];
+
+const LINEAR_P3_TO_XYZ_D65: Matrix3 = [
+  [608311 / 1250200, 189793 / 714400, 198249 / 1000160],
+  [35783 / 156275, 247089 / 357200, 198249 / 2500400],
+  [0, 32229 / 714400, 5220557 / 5000800]
+];
+
+const LINEAR_A98_TO_XYZ_D65: Matrix3 = [
+  [573536 / 994567, 263643 / 1420810, 187206 / 994567],
+  [591459 / 1989134, 6239551 / 9945670, 374412 / 4972835],
+  [53769 / 1989134, 351524 / 4972835, 4929758 / 4972835]
+];
+
+const LINEAR_PROPHOTO_TO_XYZ_D50: Matrix3 = [
+  [0.7977666449006423, 0.13518129740053308, 0.0313477341283922],
+  [0.2880748288194013, 0.711835234241873, 0.00008993693872564],
+  [0, 0, 0.8251046025104602]
+];
+
+const LINEAR_REC2020_TO_XYZ_D65: Matrix3 = [
+  [63426534 / 99577255, 20160776 / 139408157, 47086771 / 278816314],
+  [26158966 / 99577255, 472592308 / 697040785, 8267143 / 139408157],
+  [0, 19567812 / 697040785, 295819943 / 278816314]
+];
+
+const XYZ_D50_TO_XYZ_D65: Matrix3 = [
+  [0.955473421488075, -0.02309845494876471, 0.06325924320057072],
+  [-0.0283697093338637, 1.0099953980813041, 0.021041441191917323],
+  [0.012314014864481998, -0.020507649298898964, 1.330365926242124]
+];
+
+const XYZ_D65_TO_LINEAR_P3: Matrix3 = [
+  [446124 / 178915, -333277 / 357830, -72051 / 178915],
+  [-14852 / 17905, 63121 / 35810, 423 / 17905],
+  [11844 / 330415, -50337 / 660830, 316169 / 330415]
+];
+
+export type GamutTarget = 'srgb' | 'display-p3';
+
+// Linear RGB in the target space; both targets share the sRGB transfer function
+const oklabToLinearTarget = (lab: OKLab, target: GamutTarget): RGB => {
+  const linear = oklabToLinearRgb(lab);
+  if (target === 'srgb') {
+    return linear;
+  }
+  const xyz = multiplyMatrix(LINEAR_SRGB_TO_XYZ_D65, [linear.r, linear.g, linear.b]);
+  const [r, g, b] = multiplyMatrix(XYZ_D65_TO_LINEAR_P3, xyz);
+  return { r, g, b };
+};
+
+const targetRgbToOklab = (rgb: RGB, target: GamutTarget): OKLab => {
+  const linear = rgbToLinearRgb(rgb);
+  if (target === 'srgb') {
+    return linearRgbToOklab(linear);
+  }
+  const xyz = multiplyMatrix(LINEAR_P3_TO_XYZ_D65, [linear.r, linear.g, linear.b]);
+  const [r, g, b] = multiplyMatrix(XYZ_D65_TO_LINEAR_SRGB, xyz);
+  return linearRgbToOklab({ r, g, b });
+};
+
+const clipRgb = ({ r, g, b }: RGB): RGB => ({
+  r: Math.min(1, Math.max(0, r)),
+  g: Math.min(1, Math.max(0, g)),
+  b: Math.min(1, Math.max(0, b))
+});
+
+const GAMUT_EPSILON = 0.000075;
+
+export const deltaEOK = (first: OKLab, second: OKLab): number => {
+  const dl = first.l - second.l;
+  const da = first.a - second.a;
+  const db = first.b - second.b;
+  return Math.sqrt(dl * dl + da * da + db * db);
+};
+
+export const isInGamut = (lch: OKLCH, target: GamutTarget = 'srgb'): boolean => {
+  const { r, g, b } = linearRgbToRgb(oklabToLinearTarget(oklchToOklab(lch), target));
+  return [r, g, b].every(channel => channel >= -GAMUT_EPSILON && channel <= 1 + GAMUT_EPSILON);
+};
+
+/**
+ * CSS Color 4 gamut mapping: binary search on OKLCH chroma at constant
+ * lightness and hue, accepting a clipped result once it is within a just
+ * noticeable difference (deltaEOK < 0.02) of the chroma-reduced color.
+ * Returns gamma-encoded RGB (0-1) in the target space.
+**/
+export const gamutMap = (lch: OKLCH, target: GamutTarget = 'srgb'): RGB => {
+  const JND = 0.02;
+  const EPSILON = 0.0001;
+
+  if (lch.l >= 1) {
+    return { r: 1, g: 1, b: 1 };
+  }
+  if (lch.l <= 0) {
+    return { r: 0, g: 0, b: 0 };
+  }
+
+  const toClippedRgb = (color: OKLCH) =>
+    clipRgb(linearRgbToRgb(oklabToLinearTarget(oklchToOklab(color), target)));
+
+  if (isInGamut(lch, target)) {
+    return toClippedRgb(lch);
+  }
+
+  let min = 0;
+  let max = lch.c;
+  let minInGamut = true;
+  let current = lch;
+  let clipped = toClippedRgb(current);
+
+  if (deltaEOK(targetRgbToOklab(clipped, target), oklchToOklab(current)) < JND) {
+    return clipped;
+  }
+
+  while (max - min > EPSILON) {
+    const chroma = (min + max) / 2;
+    current = { ...lch, c: chroma };
+
+    if (minInGamut && isInGamut(current, target)) {
+      min = chroma;
+      continue;
+    }
+
+    clipped = toClippedRgb(current);
+    const error = deltaEOK(targetRgbToOklab(clipped, target), oklchToOklab(current));
+
+    if (error < JND) {
+      if (JND - error < EPSILON) {
+        return clipped;
+      }
+      minInGamut = false;
+      min = chroma;
+    } else {
+      max = chroma;
+    }
+  }
+
+  return clipped;
+};
+
+export const gamutMapToHex = (lch: OKLCH): string => rgbToHex(gamutMap(lch, 'srgb'));
+
+// Spaces colors can be interpolated in, named as in CSS `in <space>`
+export type InterpolationSpace = 'srgb' | 'srgb-linear' | 'oklab' | 'oklch';
+export type HueInterpolation = 'shorter' | 'longer';
+
+// CSS Color 4 hue fixup: adjust the hues so interpolating between them goes the requested way round
+const fixupHues = (start: number, end: number, method: HueInterpolation): [number, number] => {
+  const difference = end - start;
+  if (method === 'shorter') {
+    if (difference > 180) return [start + 360, end];
+    if (difference < -180) return [start, end + 360];
+  } else {
+    if (difference > 0 && difference < 180) return [start + 360, end];
+    if (difference > -180 && difference <= 0) return [start, end + 360];
+  }
+  return [start, end];
+};
+
+/**
+ * Interpolates between two colors the way CSS gradients and `color-mix()` do:
+ * in the given space, with premultiplied alpha, and for OKLCH with the hue going
+ * the shorter or longer way round. An achromatic color's hue is treated as
+ * missing and takes the other color's hue. Results are gamut-mapped into sRGB.
+**/
+export const interpolateColor = (
+  from: string,
+  to: string,
+  t: number,
+  space: InterpolationSpace = 'oklab',
+  hue: HueInterpolation = 'shorter'
+): string => {
+  const fromAlpha = getAlpha(from);
+  const toAlpha = getAlpha(to);
+  const alpha = fromAlpha + (toAlpha - fromAlpha) * t;
+  const mix = (start: number, end: number) => alpha === 0
+    ? start + (end - start) * t
+    : (start * fromAlpha + (end * toAlpha - start * fromAlpha) * t) / alpha;
+
+  let hex: string;
+  if (space === 'srgb' || space === 'srgb-linear') {
+    const convert = space === 'srgb' ? (rgb: RGB) => rgb : rgbToLinearRgb;
+    const start = convert(hexToRgb(from));
+    const end = convert(hexToRgb(to));
+    const mixed = { r: mix(start.r, end.r), g: mix(start.g, end.g), b: mix(start.b, end.b) };
+    hex = rgbToHex(space === 'srgb' ? mixed : linearRgbToRgb(mixed));
+  } else if (space === 'oklab') {
+    const start = hexToOklab(from);
+    const end = hexToOklab(to);
+    hex = gamutMapToHex(oklabToOklch({ l: mix(start.l, end.l), a: mix(start.a, end.a), b: mix(start.b, end.b) }));
+  } else {
+    const start = hexToOklch(from);
+    const end = hexToOklch(to);
+    const startHue = isAchromatic(start) ? end.h : start.h;
+    const endHue = isAchromatic(end) ? startHue : end.h;
+    const [fixedStart, fixedEnd] = fixupHues(startHue, endHue, hue);
+    const h = fixedStart + (fixedEnd - fixedStart) * t;
+    hex = gamutMapToHex({ l: mix(start.l, end.l), c: mix(start.c, end.c), h: ((h % 360) + 360) % 360 });
+  }
+
+  return withAlpha(hex, alpha);
+};
+
+// Round to a fixed number of decimals and drop trailing zeros
+const roundTo = (value: number, decimals: number): string => {
+  const rounded = Number(value.toFixed(decimals));
+  return String(Object.is(rounded, -0) ? 0 : rounded);
+};
+
+// Alpha suffix for functional notations, omitted for opaque colors
+const formatAlphaSuffix = (alpha: number): string =>
+  alpha < 1 ? ` / ${roundTo(Math.max(0, alpha), 2)}` : '';
+
+export const formatOklch = ({ l, c, h }: OKLCH, alpha: number = 1): string => {
+  const lightness = roundTo(Math.min(1, Math.max(0, l)) * 100, 2);
+  const chroma = roundTo(c, 4);
+  const hue = c < ACHROMATIC_CHROMA || Number(chroma) === 0 ? 'none' : roundTo(h % 360, 2);
+
+  return `oklch(${lightness}% ${chroma} ${hue}${formatAlphaSuffix(alpha)})`;
+};
+
+export const formatDisplayP3 = (lch: OKLCH, alpha: number = 1): string => {
+  const { r, g, b } = gamutMap(lch, 'display-p3');
+  return `color(display-p3 ${roundTo(r, 4)} ${roundTo(g, 4)} ${roundTo(b, 4)}${formatAlphaSuffix(alpha)})`;
+};
+
+export const formatHsl = (hexColor: string): string => {
+  const { h, s, l } = hexToHSL(hexColor);
+  return `hsl(${Math.round(h)}deg ${Math.round(s * 100)}% ${Math.round(l * 100)}%${formatAlphaSuffix(getAlpha(hexColor))})`;
+};
+
+export const formatColor = (hexColor: string, format: ColorFormat): string => {
+  switch (format) {
+    case 'hsl':
+      return formatHsl(hexColor);
+    case 'oklch':
+      return formatOklch(hexToOklch(hexColor), getAlpha(hexColor));
+    case 'p3':
+      // The same sRGB color written in P3; a hex color can't hold anything wider
+      return formatDisplayP3(hexToOklch(hexColor), getAlpha(hexColor));
+    case 'hex':
+    default:
+      return standardizeHexColor(hexColor);
+  }
+};
+
+export type CvdType =
+  | 'protanopia'
+  | 'deuteranopia'
+  | 'tritanopia'
+  | 'protanomaly'
+  | 'deuteranomaly'
+  | 'tritanomaly'
+  | 'achromatopsia';
+
+export interface CvdSimulation {
+  type: CvdType;
+  // 0-1, only used by the anomalous (partial) types
+  severity?: number;
+}
+
+export const CVD_TYPES: { value: CvdType; label: string; anomalous: boolean }[] = [
+  { value: 'protanopia', label: 'Protanopia', anomalous: false },
+  { value: 'protanomaly', label: 'Protanomaly', anomalous: true },
+  { value: 'deuteranopia', label: 'Deuteranopia', anomalous: false },
+  { value: 'deuteranomaly', label: 'Deuteranomaly', anomalous: true },
+  { value: 'tritanopia', label: 'Tritanopia', anomalous: false },
+  { value: 'tritanomaly', label: 'Tritanomaly', anomalous: true },
+  { value: 'achromatopsia', label: 'Achromatopsia', anomalous: false },
+];
+
+// Machado, Oliveira & Fernandes (2009) matrices for severities 0.1 to 1.0,
+// applied to linear sRGB. Severity 0 is the identity.
+const MACHADO_MATRICES: Record<'protan' | 'deutan' | 'tritan', Matrix3[]> = {
+  protan: [
+    [[0.856167, 0.182038, -0.038205], [0.029342, 0.955115, 0.015544], [-0.00288, -0.001563, 1.004443]],
+    [[0.734766, 0.334872, -0.069637], [0.05184, 0.919198, 0.028963], [-0.004928, -0.004209, 1.009137]],
+    [[0.630323, 0.465641, -0.095964], [0.069181, 0.890046, 0.040773], [-0.006308, -0.007724, 1.014032]],
+    [[0.539009, 0.579343, -0.118352], [0.082546, 0.866121, 0.051332], [-0.007136, -0.011959, 1.019095]],
+    [[0.458064, 0.679578, -0.137642], [0.092785, 0.846313, 0.060902], [-0.007494, -0.016807, 1.024301]],
+    [[0.38545, 0.769005, -0.154455], [0.100526, 0.829802, 0.069673], [-0.007442, -0.02219, 1.029632]],
+    [[0.319627, 0.849633, -0.169261], [0.106241, 0.815969, 0.07779], [-0.007025, -0.028051, 1.035076]],
+    [[0.259411, 0.923008, -0.18242], [0.110296, 0.80434, 0.085364], [-0.006276, -0.034346, 1.040622]],
+    [[0.203876, 0.990338, -0.194214], [0.112975, 0.794542, 0.092483], [-0.005222, -0.041043, 1.046265]],
+    [[0.152286, 1.052583, -0.204868], [0.114503, 0.786281, 0.099216], [-0.003882, -0.048116, 1.051998]]
+  ],
+  deutan: [
+    [[0.866435, 0.177704, -0.044139], [0.049567, 0.939063, 0.01137], [-0.003453, 0.007233, 0.99622]],
+    [[0.760729, 0.319078, -0.079807], [0.090568, 0.889315, 0.020117], [-0.006027, 0.013325, 0.992702]],
+    [[0.675425, 0.43385, -0.109275], [0.125303, 0.847755, 0.026942], [-0.00795, 0.018572, 0.989378]],
+    [[0.605511, 0.52856, -0.134071], [0.155318, 0.812366, 0.032316], [-0.009376, 0.023176, 0.9862]],
+    [[0.547494, 0.607765, -0.155259], [0.181692, 0.781742, 0.036566], [-0.01041, 0.027275, 0.983136]],
+    [[0.498864, 0.674741, -0.173604], [0.205199, 0.754872, 0.039929], [-0.011131, 0.030969, 0.980162]],
+    [[0.457771, 0.731899, -0.18967], [0.226409, 0.731012, 0.042579], [-0.011595, 0.034333, 0.977261]],
+    [[0.422823, 0.781057, -0.203881], [0.245752, 0.709602, 0.044646], [-0.011843, 0.037423, 0.974421]],
+    [[0.392952, 0.82361, -0.216562], [0.263559, 0.69021, 0.046232], [-0.01191, 0.040281, 0.97163]],
+    [[0.367322, 0.860646, -0.227968], [0.280085, 0.672501, 0.047413], [-0.01182, 0.04294, 0.968881]]
+  ],
+  tritan: [
+    [[0.92667, 0.092514, -0.019184], [0.021191, 0.964503, 0.014306], [0.008437, 0.054813, 0.93675]],
+    [[0.89572, 0.13333, -0.02905], [0.029997, 0.9454, 0.024603], [0.013027, 0.104707, 0.882266]],
+    [[0.905871, 0.127791, -0.033662], [0.026856, 0.941251, 0.031893], [0.01341, 0.148296, 0.838294]],
+    [[0.948035, 0.08949, -0.037526], [0.014364, 0.946792, 0.038844], [0.010853, 0.193991, 0.795156]],
+    [[1.017277, 0.027029, -0.044306], [-0.006113, 0.958479, 0.047634], [0.006379, 0.248708, 0.744913]],
+    [[1.104996, -0.046633, -0.058363], [-0.032137, 0.971635, 0.060503], [0.001336, 0.317922, 0.680742]],
+    [[1.193214, -0.109812, -0.083402], [-0.058496, 0.97941, 0.079086], [-0.002346, 0.403492, 0.598854]],
+    [[1.257728, -0.139648, -0.118081], [-0.078003, 0.975409, 0.102594], [-0.003316, 0.501214, 0.502102]],
+    [[1.278864, -0.125333, -0.153531], [-0.084748, 0.957674, 0.127074], [-0.000989, 0.601151, 0.399838]],
+    [[1.255528, -0.076749, -0.178779], [-0.078411, 0.930809, 0.147602], [0.004733, 0.691367, 0.3039]]
+  ]
+};
+
+const CVD_DEFICIENCIES: Record<Exclude<CvdType, 'achromatopsia'>, keyof typeof MACHADO_MATRICES> = {
+  protanopia: 'protan',
+  protanomaly: 'protan',
+  deuteranopia: 'deutan',
+  deuteranomaly: 'deutan',
+  tritanopia: 'tritan',
+  tritanomaly: 'tritan'
+};
+
+const IDENTITY_MATRIX: Matrix3 = [[1, 0, 0], [0, 1, 0], [0, 0, 1]];
+
+// Linearly interpolates between the tabulated severities
+const machadoMatrix = (deficiency: keyof typeof MACHADO_MATRICES, severity: number): Matrix3 => {
+  const table = [IDENTITY_MATRIX, ...MACHADO_MATRICES[deficiency]];
+  const position = Math.min(1, Math.max(0, severity)) * 10;
+  const lower = Math.floor(position);
+  const upper = Math.min(10, lower + 1);
+  const t = position - lower;
+
+  return table[lower].map((row, i) =>
+    row.map((value, j) => value + (table[upper][i][j] - value) * t)
+  ) as Matrix3;
+};
+
+/**
+ * Simulates how a color looks with a color vision deficiency. The -opia
+ * types are full dichromacy; the -omaly types take a severity from 0 to 1.
+ * Alpha is kept as-is.
+**/
+export const simulateCvd = (hexColor: string, simulation: CvdSimulation): string => {
+  const { type, severity = 1 } = simulation;
+  const alpha = getAlpha(hexColor);
+  const { r, g, b } = rgbToLinearRgb(hexToRgb(hexColor));
+
+  if (type === 'achromatopsia') {
+    // Rod monochromacy: only luminance is left
+    const y = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+    return withAlpha(rgbToHex(linearRgbToRgb({ r: y, g: y, b: y })), alpha);
+  }
+
+  const deficiency = CVD_DEFICIENCIES[type];
+  const anomalous = type.endsWith('omaly');
+  const [sr, sg, sb] = multiplyMatrix(machadoMatrix(deficiency, anomalous ? severity : 1), [r, g, b]);
+
+  return withAlpha(rgbToHex(linearRgbToRgb({ r: sr, g: sg, b: sb })), alpha);
+};
+
+export const simulatePaletteCvd = (colors: string[], simulation: CvdSimulation): string[] =>
+  colors.map(color => simulateCvd(color, simulation));
+
+export type GenerationSpace = 'hsl' | 'oklch';
+
+// CSS Color 4 reference range: 100% OKLCH chroma corresponds to 0.4
+const OKLCH_CHROMA_RANGE = 0.4;
+
+const D50_WHITE: [number, number, number] = [0.3457 / 0.3585, 1, (1 - 0.3457 - 0.3585) / 0.3585];
+
+const labToXyzD50 = (l: number, a: number, b: number): [number, number, number] => {
+  const kappa = 24389 / 27;
+  const epsilon = 216 / 24389;
+  const f1 = (l + 16) / 116;
+  const f0 = a / 500 + f1;
+  const f2 = f1 - b / 200;
+
+  const x = Math.pow(f0, 3) > epsilon ? Math.pow(f0, 3) : (116 * f0 - 16) / kappa;
+  const y = l > kappa * epsilon ? Math.pow(f1, 3) : l / kappa;
+  const z = Math.pow(f2, 3) > epsilon ? Math.pow(f2, 3) : (116 * f2 - 16) / kappa;
+
+  return [x * D50_WHITE[0], y * D50_WHITE[1], z * D50_WHITE[2]];
+};
+
+const XYZ_D65_TO_XYZ_D50: Matrix3 = [
+  [1.0479297925449969, 0.022946870601609652, -0.05019226628920524],
+  [0.02962780877005599, 0.9904344267538799, -0.017073799063418826],
+  [-0.009243040646204504, 0.015055191490298152, 0.7518742814281371]
+];
+
+export interface Lab {
+  l: number;
+  a: number;
+  b: number;
+}
+
+// CIELAB relative to D50, the same space CSS lab() uses
+export const hexToLab = (hexColor: string): Lab => {
+  const kappa = 24389 / 27;
+  const epsilon = 216 / 24389;
+  const { r, g, b } = rgbToLinearRgb(hexToRgb(hexColor));
+  const xyz = multiplyMatrix(XYZ_D65_TO_XYZ_D50, multiplyMatrix(LINEAR_SRGB_TO_XYZ_D65, [r, g, b]));
+  const [fx, fy, fz] = xyz.map((value, i) => {
+    const scaled = value / D50_WHITE[i];
+    return scaled > epsilon ? Math.cbrt(scaled) : (kappa * scaled + 16) / 116;
+  });
+
+  return {
+    l: 116 * fy - 16,
+    a: 500 * (fx - fy),
+    b: 200 * (fy - fz)
+  };
+};
+
+/**
+ * CIEDE2000 color difference (Sharma, Wu & Dalal 2005) with unit weights.
+ * Around 1 is a just noticeable difference; below ~2.3 most people can't
+ * tell two colors apart side by side.
+**/
+export const deltaE2000 = (first: Lab, second: Lab): number => {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+  const pow7 = (value: number) => Math.pow(value, 7);
+
+  const c1 = Math.hypot(first.a, first.b);
+  const c2 = Math.hypot(second.a, second.b);
+  const cMean = (c1 + c2) / 2;
+  const g = 0.5 * (1 - Math.sqrt(pow7(cMean) / (pow7(cMean) + pow7(25))));
+
+  const a1 = first.a * (1 + g);
+  const a2 = second.a * (1 + g);
+  const c1p = Math.hypot(a1, first.b);
+  const c2p = Math.hypot(a2, second.b);
+  const hue = (a: number, b: number) => (a === 0 && b === 0 ? 0 : (toDegrees(Math.atan2(b, a)) + 360) % 360);
+  const h1p = hue(a1, first.b);
+  const h2p = hue(a2, second.b);
+
+  const deltaLp = second.l - first.l;
+  const deltaCp = c2p - c1p;
+  let deltahp = 0;
+  if (c1p * c2p !== 0) {
+    deltahp = h2p - h1p;
+    if (deltahp > 180) deltahp -= 360;
+    else if (deltahp < -180) deltahp += 360;
+  }
+  const deltaHp = 2 * Math.sqrt(c1p * c2p) * Math.sin(toRadians(deltahp / 2));
+
+  const lMean = (first.l + second.l) / 2;
+  const cpMean = (c1p + c2p) / 2;
+  let hpMean = h1p + h2p;
+  if (c1p * c2p !== 0) {
+    if (Math.abs(h1p - h2p) <= 180) hpMean = (h1p + h2p) / 2;
+    else if (h1p + h2p < 360) hpMean = (h1p + h2p + 360) / 2;
+    else hpMean = (h1p + h2p - 360) / 2;
+  }
+
+  const t = 1
+    - 0.17 * Math.cos(toRadians(hpMean - 30))
+    + 0.24 * Math.cos(toRadians(2 * hpMean))
+    + 0.32 * Math.cos(toRadians(3 * hpMean + 6))
+    - 0.2 * Math.cos(toRadians(4 * hpMean - 63));
+  const deltaTheta = 30 * Math.exp(-Math.pow((hpMean - 275) / 25, 2));
+  const rc = 2 * Math.sqrt(pow7(cpMean) / (pow7(cpMean) + pow7(25)));
+  const sl = 1 + (0.015 * Math.pow(lMean - 50, 2)) / Math.sqrt(20 + Math.pow(lMean - 50, 2));
+  const sc = 1 + 0.045 * cpMean;
+  const sh = 1 + 0.015 * cpMean * t;
+  const rt = -Math.sin(toRadians(2 * deltaTheta)) * rc;
+
+  return Math.sqrt(
+    Math.pow(deltaLp / sl, 2)
+    + Math.pow(deltaCp / sc, 2)
+    + Math.pow(deltaHp / sh, 2)
+    + rt * (deltaCp / sc) * (deltaHp / sh)
+  );
+};
+
+export const hexDeltaE2000 = (first: string, second: string): number =>
+  deltaE2000(hexToLab(first), hexToLab(second));
+
+const xyzD65ToLinearRgb = (xyz: [number, number, number]): RGB => {
+  const [r, g, b] = multiplyMatrix(XYZ_D65_TO_LINEAR_SRGB, xyz);
+  return { r, g, b };
+};
+
+const applyTransfer = (
+  channels: [number, number, number],
+  transfer: (abs: number) => number
+): [number, number, number] =>
+  channels.map(channel => Math.sign(channel) * transfer(Math.abs(channel))) as [number, number, number];
+
+// Predefined RGB and XYZ spaces accepted by color(), each converted to XYZ D65
+const PREDEFINED_SPACES: Record<string, (channels: [number, number, number]) => [number, number, number]> = {
+  'srgb': (c) => multiplyMatrix(LINEAR_SRGB_TO_XYZ_D65, c.map(srgbToLinear) as [number, number, number]),
+  'srgb-linear': (c) => multiplyMatrix(LINEAR_SRGB_TO_XYZ_D65, c),
+  'display-p3': (c) => multiplyMatrix(LINEAR_P3_TO_XYZ_D65, c.map(srgbToLinear) as [number, number, number]),
+  'a98-rgb': (c) => multiplyMatrix(LINEAR_A98_TO_XYZ_D65, applyTransfer(c, abs => Math.pow(abs, 563 / 256))),
+  'prophoto-rgb': (c) => multiplyMatrix(
+    XYZ_D50_TO_XYZ_D65,
+    multiplyMatrix(LINEAR_PROPHOTO_TO_XYZ_D50, applyTransfer(c, abs => abs <= 16 / 512 ? abs / 16 : Math.pow(abs, 1.8)))
+  ),
+  'rec2020': (c) => {
+    const alpha = 1.09929682680944;
+    const beta = 0.018053968510807;
+    return multiplyMatrix(
+      LINEAR_REC2020_TO_XYZ_D65,
+      applyTransfer(c, abs => abs < beta * 4.5 ? abs / 4.5 : Math.pow((abs + alpha - 1) / alpha, 1 / 0.45))
+    );
+  },
+  'xyz': (c) => c,
+  'xyz-d65': (c) => c,
+  'xyz-d50': (c) => multiplyMatrix(XYZ_D50_TO_XYZ_D65, c)
+};
+
+export type ColorParseResult =
+  | { valid: true; hex: string; alpha: number }
+  | { valid: false; error: string };
+
+interface CssValue {
+  type: 'number' | 'percentage' | 'angle' | 'none';
+  value: number;
+}
+
+const ANGLE_UNITS: Record<string, number> = {
+  deg: 1,
+  grad: 360 / 400,
+  rad: 180 / Math.PI,
+  turn: 360
+};
+
+const parseCssValue = (token: string): CssValue | null => {
+  if (token === 'none') {
+    return { type: 'none', value: 0 };
+  }
+
+  const match = /^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)(%|deg|grad|rad|turn)?$/.exec(token);
+  if (!match) {
+    return null;
+  }
+
+  const value = parseFloat(match[1]);
+  const unit = match[2];
+
+  if (!unit) return { type: 'number', value };
+  if (unit === '%') return { type: 'percentage', value };
+  return { type: 'angle', value: value * ANGLE_UNITS[unit] };
+};
+
+class ColorSyntaxError extends Error {}
+
+/**
+ * Resolves a channel to a number. `percentScale` is what 100% maps to;
+ * leaving it out means percentages are not allowed for the channel.
+ */
+const toNumber = (value: CssValue, fn: string, channel: string, percentScale?: number): number => {
+  switch (value.type) {
+    case 'none':
+      return 0;
+    case 'number':
+      return value.value;
+    case 'percentage':
+      if (percentScale === undefined) {
+        throw new ColorSyntaxError(`${fn}() does not accept a percentage for ${channel}`);
+      }
+      return (value.value / 100) * percentScale;
+    case 'angle':
+      throw new ColorSyntaxError(`${fn}() does not accept an angle for ${channel}`);
+  }
+};
+
+const toHue = (value: CssValue, fn: string): number => {
+  if (value.type === 'percentage') {
+    throw new ColorSyntaxError(`${fn}() expects a hue in degrees, not a percentage`);
+  }
+  return ((value.value % 360) + 360) % 360;
+};
+
+const toAlpha = (value: CssValue | undefined, fn: string): number => {
+  if (!value) return 1;
+  return Math.min(1, Math.max(0, toNumber(value, fn, 'alpha', 1)));
+};
+
+// Maps an unbounded linear sRGB color to hex, gamut-mapping it when needed
+const linearRgbToSrgbHex = (linear: RGB): string => {
+  const rgb = linearRgbToRgb(linear);
+  if ([rgb.r, rgb.g, rgb.b].every(channel => channel >= -0.0005 && channel <= 1.0005)) {
+    return rgbToHex(rgb);
+  }
+  return gamutMapToHex(oklabToOklch(linearRgbToOklab(linear)));
+};
+
+const hwbToRgb = (h: number, whiteness: number, blackness: number): RGB => {
+  if (whiteness + blackness >= 1) {
+    const gray = whiteness / (whiteness + blackness);
+    return { r: gray, g: gray, b: gray };
+  }
+
+  const { r, g, b } = hexToRgb(hslToHex(h, 1, 0.5));
+  const scale = 1 - whiteness - blackness;
+  return {
+    r: r * scale + whiteness,
+    g: g * scale + whiteness,
+    b: b * scale + whiteness
+  };
+};
+
+const parseHexNotation = (hex: string): ColorParseResult => {
+  if (!/^[0-9a-f]*$/i.test(hex)) {
+    return { valid: false, error: `"#${hex}" contains characters that are not hex digits` };
+  }
+  if (![3, 4, 6, 8].includes(hex.length)) {
+    return { valid: false, error: `Hex colors need 3, 4, 6 or 8 digits, got ${hex.length}` };
+  }
+
+  const expanded = hex.length <= 4 ? hex.split('').map(digit => digit + digit).join('') : hex;
+  return {
+    valid: true,
+    hex: `#${expanded.substring(0, 6).toLowerCase()}`,
+    alpha: expanded.length === 8 ? parseInt(expanded.substring(6, 8), 16) / 255 : 1
+  };
+};
+
+const splitArguments = (fn: string, args: string): { channels: CssValue[]; alpha?: CssValue; legacy: boolean } => {
+  const legacy = args.includes(',');
+  let channelTokens: string[];
+  let alphaToken: string | undefined;
+
+  if (legacy) {
+    if (!['rgb', 'rgba', 'hsl', 'hsla'].includes(fn)) {
+      throw new ColorSyntaxError(`${fn}() separates values with spaces, not commas`);
+    }
+    const parts = args.split(',').map(part => part.trim());
+    if (parts.length !== 3 && parts.length !== 4) {
+      throw new ColorSyntaxError(`${fn}() expects 3 values and an optional alpha, got ${parts.length}`);
+    }
+    channelTokens = parts.slice(0, 3);
+    alphaToken = parts[3];
+  } else {
+    const [channelPart, alphaPart, ...rest] = args.split('/');
+    if (rest.length > 0) {
+      throw new ColorSyntaxError(`${fn}() can only have one "/" before the alpha value`);
+    }
+    channelTokens = channelPart.trim().split(/\s+/).filter(Boolean);
+    alphaToken = alphaPart?.trim();
+    if (alphaPart !== undefined && !alphaToken) {
+      throw new ColorSyntaxError(`${fn}() is missing the alpha value after "/"`);
+    }
+  }
+
+  const parse = (token: string) => {
+    const value = parseCssValue(token);
+    if (!value || (legacy && value.type === 'none')) {
+      throw new ColorSyntaxError(`"${token}" is not a valid value in ${fn}()`);
+    }
+    return value;
+  };
+
+  return {
+    channels: channelTokens.map(parse),
+    alpha: alphaToken !== undefined ? parse(alphaToken) : undefined,
+    legacy
+  };
+};
+
+const expectChannels = (fn: string, channels: CssValue[], count: number = 3) => {
+  if (channels.length !== count) {
+    throw new ColorSyntaxError(`${fn}() expects ${count} values, got ${channels.length}`);
+  }
+};
+
+const parseColorFunction = (fn: string, args: string): ColorParseResult => {
+  if (fn === 'color') {
+    const [space, ...rest] = args.trim().split(/\s+/);
+    const toXyz = PREDEFINED_SPACES[space];
+    if (!toXyz) {
+      throw new ColorSyntaxError(`Unknown color space "${space}" in color()`);
+    }
+    const { channels, alpha } = splitArguments(fn, rest.join(' '));
+    expectChannels(fn, channels);
+    const values = channels.map((value, i) => toNumber(value, fn, `channel ${i + 1}`, 1)) as [number, number, number];
+    return { valid: true, hex: linearRgbToSrgbHex(xyzD65ToLinearRgb(toXyz(values))), alpha: toAlpha(alpha, fn) };
+  }
+
+  const { channels, alpha, legacy } = splitArguments(fn, args);
+  expectChannels(fn, channels);
+  const [c1, c2, c3] = channels;
+
+  switch (fn) {
+    case 'rgb':
+    case 'rgba': {
+      if (legacy && new Set(channels.map(channel => channel.type)).size > 1) {
+        throw new ColorSyntaxError(`${fn}() with commas needs all numbers or all percentages`);
+      }
+      const [r, g, b] = channels.map((value, i) => toNumber(value, fn, 'rgb'[i], 255) / 255);
+      return {
+        valid: true,
+        hex: rgbToHex({ r, g, b }),
+        alpha: toAlpha(alpha, fn)
+      };
+    }
+    case 'hsl':
+    case 'hsla': {
+      if (legacy && (c2.type !== 'percentage' || c3.type !== 'percentage')) {
+        throw new ColorSyntaxError(`${fn}() with commas needs saturation and lightness as percentages`);
+      }
+      const s = Math.min(100, Math.max(0, toNumber(c2, fn, 'saturation', 100))) / 100;
+      const l = Math.min(100, Math.max(0, toNumber(c3, fn, 'lightness', 100))) / 100;
+      return { valid: true, hex: hslToHex(toHue(c1, fn), s, l), alpha: toAlpha(alpha, fn) };
+    }
+    case 'hwb': {
+      const w = Math.min(100, Math.max(0, toNumber(c2, fn, 'whiteness', 100))) / 100;
+      const b = Math.min(100, Math.max(0, toNumber(c3, fn, 'blackness', 100))) / 100;
+      return { valid: true, hex: rgbToHex(hwbToRgb(toHue(c1, fn), w, b)), alpha: toAlpha(alpha, fn) };
+    }
+    case 'lab':
+    case 'lch': {
+      const l = Math.min(100, Math.max(0, toNumber(c1, fn, 'lightness', 100)));
+      let a: number;
+      let b: number;
+      if (fn === 'lab') {
+        a = toNumber(c2, fn, 'a', 125);
+        b = toNumber(c3, fn, 'b', 125);
+      } else {
+        const c = Math.max(0, toNumber(c2, fn, 'chroma', 150));
+        const h = (toHue(c3, fn) * Math.PI) / 180;
+        a = c * Math.cos(h);
+        b = c * Math.sin(h);
+      }
+      const xyz = multiplyMatrix(XYZ_D50_TO_XYZ_D65, labToXyzD50(l, a, b));
+      return { valid: true, hex: linearRgbToSrgbHex(xyzD65ToLinearRgb(xyz)), alpha: toAlpha(alpha, fn) };
+    }
+    case 'oklab':
+    case 'oklch': {
+      const l = Math.min(1, Math.max(0, toNumber(c1, fn, 'lightness', 1)));
+      const lab: OKLab = fn === 'oklab'
+        ? { l, a: toNumber(c2, fn, 'a', OKLCH_CHROMA_RANGE), b: toNumber(c3, fn, 'b', OKLCH_CHROMA_RANGE) }
+        : oklchToOklab({ l, c: Math.max(0, toNumber(c2, fn, 'chroma', OKLCH_CHROMA_RANGE)), h: toHue(c3, fn) });
+      return { valid: true, hex: linearRgbToSrgbHex(oklabToLinearRgb(lab)), alpha: toAlpha(alpha, fn) };
+    }
+    default:
+      throw new ColorSyntaxError(`Unsupported color function "${fn}()"`);
+  }
+};
+
+const parseColorValue = (input: string): ColorParseResult => {
+  const value = input.trim().toLowerCase();
+
+  if (!value) {
+    return { valid: false, error: "Enter a color" };
+  }
+
+  if (value.startsWith('#')) {
+    return parseHexNotation(value.substring(1));
+  }
+
+  if (value === 'transparent') {
+    return { valid: true, hex: '#000000', alpha: 0 };
+  }
+
+  if (value === 'currentcolor') {
+    return { valid: false, error: "currentColor depends on context and can't be used here" };
+  }
+
+  if (CSS_NAMED_COLORS[value]) {
+    return { valid: true, hex: CSS_NAMED_COLORS[value], alpha: 1 };
+  }
+
+  const fnMatch = /^([a-z0-9-]+)\((.*)\)$/.exec(value);
+  if (fnMatch) {
+    try {
+      return parseColorFunction(fnMatch[1], fnMatch[2]);
+    } catch (e) {
+      if (e instanceof ColorSyntaxError) {
+        return { valid: false, error: e.message };
+      }
+      throw e;
+    }
+  }
+
+  if (value.includes('(')) {
+    return { valid: false, error: "Color function is missing its closing parenthesis" };
+  }
+
+  // Bare hex digits without the leading # are accepted, as before
+  if (/^([0-9a-f]{3}|[0-9a-f]{6})$/.test(value)) {
+    return parseHexNotation(value);
+  }
+
+  return { valid: false, error: `"${input.trim()}" is not a color name or CSS color value` };
+};
+
+/**
+ * Parses any CSS Color 4 syntax (hex, named colors, rgb(), hsl(), hwb(),
+ * lab(), lch(), oklab(), oklch() and color()) into an sRGB hex color, as
+ * #rrggbbaa when the color is translucent. Colors outside sRGB are
+ * gamut-mapped; invalid input gets a specific error.
+**/
+export const parseColor = (input: string): ColorParseResult => {
+  const result = parseColorValue(input);
+  return result.valid ? { ...result, hex: withAlpha(result.hex, result.alpha) } : result;
+};
+
+export const isValidColor = (input: string): boolean => parseColor(input).valid;
+
+/**
+ * Generators work on normalized { h, s, l } components (hue in degrees, the
+ * other two in 0-1). Each generation space decides what those components mean:
+ * HSL uses them as-is, OKLCH maps them to perceptual lightness and chroma.
+ */
+interface GenerationSpaceAdapter {
+  toComponents: (hexColor: string) => { h: number; s: number; l: number };
+  fromComponents: (h: number, s: number, l: number) => string;
+}
+
+// `onGamutMapped` is told about every color that had to be pulled into sRGB
+const createGenerationSpace = (
+  colorSpace: GenerationSpace,
+  onGamutMapped?: (hexColor: string) => void
+): GenerationSpaceAdapter => {
+  if (colorSpace === 'hsl') {
+    return {
+      toComponents: hexToHSL,
+      fromComponents: hslToHex
+    };
+  }
+
+  return {
+    toComponents: (hexColor) => {
+      const { l, c, h } = hexToOklch(hexColor);
+      return { h, s: c / OKLCH_CHROMA_RANGE, l };
+    },
+    fromComponents: (h, s, l) => {
+      const lch = { l, c: Math.max(0, s) * OKLCH_CHROMA_RANGE, h: (h + 360) % 360 };
+      const hex = gamutMapToHex(lch);
+      if (!isInGamut(lch)) {
+        onGamutMapped?.(hex);
+      }
+      return hex;
+    }
+  };
+};
+
+/**
+ * Mulberry32: a small 32-bit PRNG built only from integer operations, so a
+ * seed gives the same sequence in every browser and on every machine.
+ * Returns a function yielding floats in [0, 1).
+**/
+export const createRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  };
+};
+
+// A fresh unsigned 32-bit seed; the only place randomness isn't reproducible
+export const createSeed = (): number => Math.floor(Math.random() * 0x100000000);
 
-export const generateMonochromaticPalette = (baseColor: string, swatchCount: number = 5): string[] => {
+// Seeds are shown and shared in base 36 to keep them short
+export const formatSeed = (seed: number): string => (seed >>> 0).toString(36);
+
+export const parseSeed = (text: string): number | null => {
+  if (!/^[0-9a-z]{1,7}$/i.test(text)) {
+    return null;
+  }
+  const seed = parseInt(text, 36);
+  return seed <= 0xffffffff ? seed : null;
+};
+
+export const randomHexColor = (random: () => number): string =>
+  `#${Math.floor(random() * 0x1000000).toString(16).padStart(6, '0')}`;
+
+// The base color a seed stands for. The seed fixes only this color: the palette
+// also depends on the type and generation settings, which share links carry with it
+export const seededHexColor = (seed: number): string => randomHexColor(createRandom(seed));
+
+// The color for the anchor added at `index` under a seed: its random stream carried on past the base color
+export const seededAnchorColor = (seed: number, index: number): string => {
+  const random = createRandom(seed);
+  for (let draw = 0; draw <= index; draw++) {
+    randomHexColor(random);
+  }
+  return randomHexColor(random);
+};
+
+// Id of a generator in the palette generator registry
+export type PaletteType = string;
+
+// Most swatches a palette can have; user-set limits stay within it
+export const MAX_SWATCHES = 32;
+
+// Fewest and most swatches adding and removing allow
+export interface SwatchLimits {
+  min: number;
+  max: number;
+}
+
+export const DEFAULT_SWATCH_LIMITS: SwatchLimits = { min: 3, max: 10 };
+
+// Keeps limits whole, ordered and within 2..MAX_SWATCHES
+export const clampSwatchLimits = ({ min, max }: SwatchLimits): SwatchLimits => {
+  const clampedMin = Math.min(MAX_SWATCHES, Math.max(2, Math.round(min)));
+  return { min: clampedMin, max: Math.min(MAX_SWATCHES, Math.max(clampedMin, Math.round(max))) };
+};
+
+// Limits as saved between visits, e.g. `3-10`
+export const formatSwatchLimits = ({ min, max }: SwatchLimits): string => `${min}-${max}`;
+
+export const parseSwatchLimits = (value: string): SwatchLimits | null => {
+  const match = /^(\d+)-(\d+)$/.exec(value);
+  return match ? clampSwatchLimits({ min: Number(match[1]), max: Number(match[2]) }) : null;
+};
+
+export const generateMonochromaticPalette = (
+  baseColor: string,
+  swatchCount: number = 5,
+  colorSpace: GenerationSpace = 'hsl',
+  onGamutMapped?: (hexColor: string) => void
+): string[] => {
   const standardHex = standardizeHexColor(baseColor);
-  const { h, s, l } = hexToHSL(standardHex);
+  const space = createGenerationSpace(colorSpace, onGamutMapped);
+  const { h, s, l } = space.toComponents(standardHex);
   
   // Default to 5 swatches if count is less than 3
   const count = Math.max(3, swatchCount);
@@ -97,11 +1185,16 @@ export const generateMonochromaticPalette = (baseColor: string, swatchCount: num
   
   // Calculate step size for tints and shades based on count
   const stepSize = count <= 5 ? 0.2 : 0.8 / Math.floor(count / 2);
+
+  // Shrink the steps when they would run past the lightness limits, so
+  // tints and shades stay evenly spaced instead of piling up at the limit
+  const tintStep = Math.min(stepSize, Math.max(0, 0.97 - l) / Math.max(1, middleIndex));
+  const shadeStep = Math.min(stepSize, Math.max(0, l - 0.05) / Math.max(1, count - 1 - middleIndex));
   
   // Generate tints (lighter versions)
   for (let i = middleIndex - 1; i >= 0; i--) {
     const steps = middleIndex - i;
-    const tint = hslToHex(h, s, Math.min(l + (steps * stepSize), 0.97));
+    const tint = space.fromComponents(h, s, Math.min(l + (steps * tintStep), 0.97));
     result.unshift(tint);
   }
   
@@ -111,16 +1204,22 @@ export const generateMonochromaticPalette = (baseColor: string, swatchCount: num
   // Generate shades (darker versions)
   for (let i = middleIndex + 1; i < count; i++) {
     const steps = i - middleIndex;
-    const shade = hslToHex(h, s, Math.max(l - (steps * stepSize), 0.05));
+    const shade = space.fromComponents(h, s, Math.max(l - (steps * shadeStep), 0.05));
     result.push(shade);
   }
   
   return result;
 };
 
-export const generateAnalogousPalette = (baseColor: string, swatchCount: number = 5): string[] => {
+export const generateAnalogousPalette = (
+  baseColor: string,
+  swatchCount: number = 5,
+  colorSpace: GenerationSpace = 'hsl',
+  onGamutMapped?: (hexColor: string) => void
+): string[] => {
   const standardHex = standardizeHexColor(baseColor);
-  const { h, s, l } = hexToHSL(standardHex);
+  const space = createGenerationSpace(colorSpace, onGamutMapped);
+  const { h, s, l } = space.toComponents(standardHex);
   
   // Default to 5 swatches if count is less than 3
   const count = Math.max(3, swatchCount);
@@ -135,7 +1234,7 @@ export const generateAnalogousPalette = (baseColor: string, swatchCount: number
   
   // Generate colors with decreasing hue
   for (let i = colorsPerSide; i > 0; i--) {
-    result.push(hslToHex((h - (i * angleStep) + 360) % 360, s, l));
+    result.push(space.fromComponents((h - (i * angleStep) + 360) % 360, s, l));
   }
   
   // Add the base color if we have an odd number of swatches
@@ -145,15 +1244,21 @@ export const generateAnalogousPalette = (baseColor: string, swatchCount: number
   
   // Generate colors with increasing hue
   for (let i = 1; i <= colorsPerSide; i++) {
-    result.push(hslToHex((h + (i * angleStep)) % 360, s, l));
+    result.push(space.fromComponents((h + (i * angleStep)) % 360, s, l));
   }
   
   return result;
 };
 
-export const generateComplementaryPalette = (baseColor: string, swatchCount: number = 5): string[] => {
+export const generateComplementaryPalette = (
+  baseColor: string,
+  swatchCount: number = 5,
+  colorSpace: GenerationSpace = 'hsl',
+  onGamutMapped?: (hexColor: string) => void
+): string[] => {
   const standardHex = standardizeHexColor(baseColor);
-  const { h, s, l } = hexToHSL(standardHex);
+  const space = createGenerationSpace(colorSpace, onGamutMapped);
+  const { h, s, l } = space.toComponents(standardHex);
   const complementH = (h + 180) % 360;
   
   // Default to minimum 4 swatches
@@ -167,11 +1272,11 @@ export const generateComplementaryPalette = (baseColor: string, swatchCount: num
   const mainStepSize = 0.3 / (mainColorCount - 1);
   for (let i = 0; i < mainColorCount; i++) {
     if (i === 0) {
-      result.push(hslToHex(h, Math.max(0.1, s - 0.2), Math.min(0.9, l + 0.1)));
+      result.push(space.fromComponents(h, Math.max(0.1, s - 0.2), Math.min(0.9, l + 0.1)));
     } else if (i === 1) {
       result.push(standardHex);
     } else {
-      result.push(hslToHex(h, Math.min(1.0, s + ((i - 1) * mainStepSize)), 
+      result.push(space.fromComponents(h, Math.min(1.0, s + ((i - 1) * mainStepSize)), 
                          Math.max(0.1, l - ((i - 1) * mainStepSize))));
     }
   }
@@ -180,9 +1285,9 @@ export const generateComplementaryPalette = (baseColor: string, swatchCount: num
   const compStepSize = 0.3 / Math.max(1, complementColorCount - 1);
   for (let i = 0; i < complementColorCount; i++) {
     if (i === 0) {
-      result.push(hslToHex(complementH, Math.max(0.1, s - 0.2), Math.min(0.9, l + 0.1)));
+      result.push(space.fromComponents(complementH, Math.max(0.1, s - 0.2), Math.min(0.9, l + 0.1)));
     } else {
-      result.push(hslToHex(complementH, Math.min(1.0, s + ((i - 1) * compStepSize)),
+      result.push(space.fromComponents(complementH, Math.min(1.0, s + ((i - 1) * compStepSize)),
                          Math.max(0.1, l - ((i - 1) * compStepSize))));
     }
   }
@@ -190,9 +1295,15 @@ export const generateComplementaryPalette = (baseColor: string, swatchCount: num
   return result;
 };
 
-export const generateTriadicPalette = (baseColor: string, swatchCount: number = 5): string[] => {
+export const generateTriadicPalette = (
+  baseColor: string,
+  swatchCount: number = 5,
+  colorSpace: GenerationSpace = 'hsl',
+  onGamutMapped?: (hexColor: string) => void
+): string[] => {
   const standardHex = standardizeHexColor(baseColor);
-  const { h, s, l } = hexToHSL(standardHex);
+  const space = createGenerationSpace(colorSpace, onGamutMapped);
+  const { h, s, l } = space.toComponents(standardHex);
   
   const triad1H = (h + 120) % 360;
   const triad2H = (h + 240) % 360;
@@ -212,36 +1323,73 @@ export const generateTriadicPalette = (baseColor: string, swatchCount: number =
       result.push(standardHex);
     } else {
       const step = i / colorsForBase;
-      result.push(hslToHex(h, Math.min(1.0, s + (0.05 * step)), Math.max(0.1, l - (0.1 * step))));
+      result.push(space.fromComponents(h, Math.min(1.0, s + (0.05 * step)), Math.max(0.1, l - (0.1 * step))));
     }
   }
   
   // Generate triad1 variations
   for (let i = 0; i < colorsForTriad1; i++) {
     if (i === 0) {
-      result.push(hslToHex(triad1H, s, l));
+      result.push(space.fromComponents(triad1H, s, l));
     } else {
       const step = i / colorsForTriad1;
-      result.push(hslToHex(triad1H, Math.min(1.0, s + (0.05 * step)), Math.max(0.1, l - (0.1 * step))));
+      result.push(space.fromComponents(triad1H, Math.min(1.0, s + (0.05 * step)), Math.max(0.1, l - (0.1 * step))));
     }
   }
   
   // Generate triad2 variations
   for (let i = 0; i < colorsForTriad2; i++) {
     if (i === 0) {
-      result.push(hslToHex(triad2H, s, l));
+      result.push(space.fromComponents(triad2H, s, l));
     } else {
       const step = i / colorsForTriad2;
-      result.push(hslToHex(triad2H, Math.min(1.0, s + (0.05 * step)), Math.max(0.1, l - (0.1 * step))));
+      result.push(space.fromComponents(triad2H, Math.min(1.0, s + (0.05 * step)), Math.max(0.1, l - (0.1 * step))));
     }
   }
   
   return result;
 };
 
-export const generateTetradicPalette = (baseColor: string, swatchCount: number = 5): string[] => {
+// Lightness range the variations of a harmony point are spread over
+const POINT_VARIATION_MIN_L = 0.1;
+const POINT_VARIATION_MAX_L = 0.95;
+
+/**
+ * `count` variations of a harmony point, none equal to the point or each
+ * other: the lightness room above and below it is shared out in proportion
+ * to its size and stepped through evenly, lighter steps a little less
+ * saturated and darker ones a little more (grays stay gray).
+**/
+const pointVariations = (space: GenerationSpaceAdapter, h: number, s: number, l: number, count: number): string[] => {
+  // Points beyond the range (black, white) are stepped from its edge, clear of the point itself
+  const pointL = Math.min(POINT_VARIATION_MAX_L, Math.max(POINT_VARIATION_MIN_L, l));
+  const lighterRoom = POINT_VARIATION_MAX_L - pointL;
+  const darkerRoom = pointL - POINT_VARIATION_MIN_L;
+  const lighterCount = Math.round(count * lighterRoom / (lighterRoom + darkerRoom));
+  const darkerCount = count - lighterCount;
+  const result: string[] = [];
+
+  for (let i = 1; i <= lighterCount; i++) {
+    const t = i / (lighterCount + 1);
+    result.push(space.fromComponents(h, s * (1 - 0.3 * t), pointL + lighterRoom * t));
+  }
+  for (let i = 1; i <= darkerCount; i++) {
+    const t = i / (darkerCount + 1);
+    result.push(space.fromComponents(h, Math.min(1, s * (1 + 0.2 * t)), pointL - darkerRoom * t));
+  }
+
+  return result;
+};
+
+export const generateTetradicPalette = (
+  baseColor: string,
+  swatchCount: number = 5,
+  colorSpace: GenerationSpace = 'hsl',
+  onGamutMapped?: (hexColor: string) => void
+): string[] => {
   const standardHex = standardizeHexColor(baseColor);
-  const { h, s, l } = hexToHSL(standardHex);
+  const space = createGenerationSpace(colorSpace, onGamutMapped);
+  const { h, s, l } = space.toComponents(standardHex);
   
   const tetrad1H = (h + 90) % 360;
   const tetrad2H = (h + 180) % 360;
@@ -249,7 +1397,6 @@ export const generateTetradicPalette = (baseColor: string, swatchCount: number =
   
   // Adjust the count to be at least 4 (one for each tetrad point)
   const count = Math.max(4, swatchCount);
-  const result: string[] = [];
   
   // Distribute colors evenly among the tetrad points
   let remaining = count;
@@ -260,103 +1407,762 @@ export const generateTetradicPalette = (baseColor: string, swatchCount: number =
   const tetrad2Count = Math.ceil(remaining / 2);
   remaining -= tetrad2Count;
   const tetrad3Count = remaining;
-  
-  // Add base color variations
-  for (let i = 0; i < baseCount; i++) {
-    if (i === 0) {
-      result.push(standardHex);
-    } else {
-      result.push(hslToHex(h, Math.max(0.1, s - (0.3 * i / baseCount)), Math.min(0.95, l + (0.2 * i / baseCount))));
-    }
-  }
-  
-  // Add tetrad1 variations
-  for (let i = 0; i < tetrad1Count; i++) {
-    result.push(hslToHex(tetrad1H, s, l));
-  }
-  
-  // Add tetrad2 variations
-  for (let i = 0; i < tetrad2Count; i++) {
-    result.push(hslToHex(tetrad2H, s, l));
-  }
-  
-  // Add tetrad3 variations
-  for (let i = 0; i < tetrad3Count; i++) {
-    result.push(hslToHex(tetrad3H, s, l));
+
+  // A gray base has no hue to rotate, so the tetrad points would all be the same color
+  if (isAchromatic(hexToOklch(standardHex))) {
+    return [standardHex, ...pointVariations(space, h, s, l, count - 1)];
   }
   
-  return result;
+  // Each tetrad point, then variations of it
+  return [
+    standardHex,
+    ...pointVariations(space, h, s, l, baseCount - 1),
+    space.fromComponents(tetrad1H, s, l),
+    ...pointVariations(space, tetrad1H, s, l, tetrad1Count - 1),
+    space.fromComponents(tetrad2H, s, l),
+    ...pointVariations(space, tetrad2H, s, l, tetrad2Count - 1),
+    space.fromComponents(tetrad3H, s, l),
+    ...pointVariations(space, tetrad3H, s, l, tetrad3Count - 1)
+  ];
 };
 
-export const generateSplitComplementaryPalette = (baseColor: string, swatchCount: number = 5): string[] => {
+export const generateSplitComplementaryPalette = (
+  baseColor: string,
+  swatchCount: number = 5,
+  colorSpace: GenerationSpace = 'hsl',
+  onGamutMapped?: (hexColor: string) => void
+): string[] => {
   const standardHex = standardizeHexColor(baseColor);
-  const { h, s, l } = hexToHSL(standardHex);
+  const space = createGenerationSpace(colorSpace, onGamutMapped);
+  const { h, s, l } = space.toComponents(standardHex);
   
   const splitComplement1H = (h + 150) % 360;
   const splitComplement2H = (h + 210) % 360;
   
   // Adjust the count to be at least 3
   const count = Math.max(3, swatchCount);
-  const result: string[] = [];
   
   // Calculate distribution of colors
   const baseColorCount = Math.ceil(count / 3);
   const split1Count = Math.floor((count - baseColorCount) / 2);
   const split2Count = count - baseColorCount - split1Count;
+
+  // A gray base has no hue to rotate, so the split complements would be the same color as it
+  if (isAchromatic(hexToOklch(standardHex))) {
+    return [standardHex, ...pointVariations(space, h, s, l, count - 1)];
+  }
   
-  // Add base color variations
-  for (let i = 0; i < baseColorCount; i++) {
-    if (i === 0) {
-      result.push(hslToHex(h, Math.max(0.1, s - 0.1), Math.min(0.95, l + 0.1)));
-    } else if (i === 1) {
-      result.push(standardHex);
+  // The base and each split complement, then variations of them
+  return [
+    standardHex,
+    ...pointVariations(space, h, s, l, baseColorCount - 1),
+    space.fromComponents(splitComplement1H, s, l),
+    ...pointVariations(space, splitComplement1H, s, l, split1Count - 1),
+    space.fromComponents(splitComplement2H, s, l),
+    ...pointVariations(space, splitComplement2H, s, l, split2Count - 1)
+  ];
+};
+
+/**
+ * One hue of a custom harmony: an offset from the base hue in degrees,
+ * saturation and lightness adjustments in percentage points, and the
+ * stop's relative share of the swatches.
+**/
+export interface HarmonyStop {
+  offset: number;
+  saturation: number;
+  lightness: number;
+  weight: number;
+}
+
+export const CUSTOM_PALETTE_TYPE: PaletteType = 'custom';
+
+// Base + 60° + 200°, an even split of the swatches
+export const DEFAULT_CUSTOM_HARMONY: HarmonyStop[] = [
+  { offset: 0, saturation: 0, lightness: 0, weight: 1 },
+  { offset: 60, saturation: 0, lightness: 0, weight: 1 },
+  { offset: 200, saturation: 0, lightness: 0, weight: 1 }
+];
+
+// Most hues a custom harmony can have
+export const MAX_HARMONY_STOPS = 12;
+
+// Lightness step between the variations of one stop
+const HARMONY_VARIATION_STEP = 0.1;
+
+/**
+ * Splits `count` swatches across stops in proportion to their weights
+ * (largest remainder), giving every stop at least one when there is room.
+**/
+export const distributeSwatches = (weights: number[], count: number): number[] => {
+  const guaranteed = count >= weights.length ? 1 : 0;
+  const rest = count - guaranteed * weights.length;
+  const total = weights.reduce((sum, weight) => sum + Math.max(0, weight), 0);
+  const shares = weights.map(weight => total > 0 ? rest * Math.max(0, weight) / total : rest / weights.length);
+
+  const counts = shares.map(share => guaranteed + Math.floor(share));
+  let left = count - counts.reduce((sum, stopCount) => sum + stopCount, 0);
+
+  const byRemainder = shares
+    .map((share, index) => ({ index, remainder: share - Math.floor(share) }))
+    .sort((a, b) => b.remainder - a.remainder);
+  for (const { index } of byRemainder) {
+    if (left <= 0) break;
+    counts[index]++;
+    left--;
+  }
+
+  return counts;
+};
+
+export const generateCustomHarmonyPalette = (
+  baseColor: string,
+  stops: HarmonyStop[] = DEFAULT_CUSTOM_HARMONY,
+  swatchCount: number = 5,
+  colorSpace: GenerationSpace = 'hsl',
+  onGamutMapped?: (hexColor: string) => void
+): string[] => {
+  const standardHex = standardizeHexColor(baseColor);
+  const space = createGenerationSpace(colorSpace, onGamutMapped);
+  const { h, s, l } = space.toComponents(standardHex);
+
+  const harmony = stops.length > 0 ? stops : DEFAULT_CUSTOM_HARMONY;
+  const counts = distributeSwatches(harmony.map(stop => stop.weight), Math.max(harmony.length, swatchCount));
+  const result: string[] = [];
+
+  harmony.forEach((stop, index) => {
+    const stopH = (((h + stop.offset) % 360) + 360) % 360;
+    const stopS = Math.min(1, Math.max(0, s + stop.saturation / 100));
+    const stopL = Math.min(1, Math.max(0, l + stop.lightness / 100));
+    const isBase = stop.offset % 360 === 0 && stop.saturation === 0 && stop.lightness === 0;
+
+    // The stop itself, then alternately lighter and darker variations of it
+    for (let i = 0; i < counts[index]; i++) {
+      if (i === 0) {
+        result.push(isBase ? standardHex : space.fromComponents(stopH, stopS, stopL));
+      } else {
+        const shift = (i % 2 === 1 ? 1 : -1) * Math.ceil(i / 2) * HARMONY_VARIATION_STEP;
+        result.push(space.fromComponents(stopH, stopS, Math.min(0.97, Math.max(0.05, stopL + shift))));
+      }
+    }
+  });
+
+  return result;
+};
+
+// Square: four hues 90° apart, each with the same number of variations
+const SQUARE_HARMONY: HarmonyStop[] = [0, 90, 180, 270].map(offset => ({ offset, saturation: 0, lightness: 0, weight: 1 }));
+
+// Double split-complementary: the base, its two neighbours 30° away and the two hues beside its complement
+const DOUBLE_SPLIT_COMPLEMENTARY_HARMONY: HarmonyStop[] = [
+  { offset: 0, saturation: 0, lightness: 0, weight: 2 },
+  { offset: 30, saturation: 0, lightness: 0, weight: 1 },
+  { offset: 150, saturation: 0, lightness: 0, weight: 1 },
+  { offset: 210, saturation: 0, lightness: 0, weight: 1 },
+  { offset: 330, saturation: 0, lightness: 0, weight: 1 }
+];
+
+// Compound: the base and one analogous hue lead, backed by softer hues either side of the complement
+const COMPOUND_HARMONY: HarmonyStop[] = [
+  { offset: 0, saturation: 0, lightness: 0, weight: 2 },
+  { offset: 30, saturation: 0, lightness: 0, weight: 2 },
+  { offset: 165, saturation: -15, lightness: 5, weight: 1 },
+  { offset: 195, saturation: -15, lightness: -5, weight: 1 }
+];
+
+export const generateSquarePalette = (
+  baseColor: string,
+  swatchCount: number = 5,
+  colorSpace: GenerationSpace = 'hsl',
+  onGamutMapped?: (hexColor: string) => void
+): string[] => generateCustomHarmonyPalette(baseColor, SQUARE_HARMONY, swatchCount, colorSpace, onGamutMapped);
+
+export const generateDoubleSplitComplementaryPalette = (
+  baseColor: string,
+  swatchCount: number = 5,
+  colorSpace: GenerationSpace = 'hsl',
+  onGamutMapped?: (hexColor: string) => void
+): string[] => generateCustomHarmonyPalette(baseColor, DOUBLE_SPLIT_COMPLEMENTARY_HARMONY, swatchCount, colorSpace, onGamutMapped);
+
+export const generateCompoundPalette = (
+  baseColor: string,
+  swatchCount: number = 5,
+  colorSpace: GenerationSpace = 'hsl',
+  onGamutMapped?: (hexColor: string) => void
+): string[] => generateCustomHarmonyPalette(baseColor, COMPOUND_HARMONY, swatchCount, colorSpace, onGamutMapped);
+
+/**
+ * Mixes two colors: channel by channel in sRGB for HSL generation (like mixing
+ * paint on screen), or in OKLab for perceptual OKLCH generation.
+**/
+export const mixColors = (
+  from: string,
+  to: string,
+  t: number,
+  colorSpace: GenerationSpace = 'hsl',
+  onGamutMapped?: (hexColor: string) => void
+): string => {
+  if (colorSpace === 'hsl') {
+    const a = hexToRgb(from);
+    const b = hexToRgb(to);
+    return rgbToHex({ r: a.r + (b.r - a.r) * t, g: a.g + (b.g - a.g) * t, b: a.b + (b.b - a.b) * t });
+  }
+
+  const a = hexToOklab(from);
+  const b = hexToOklab(to);
+  const lch = oklabToOklch({ l: a.l + (b.l - a.l) * t, a: a.a + (b.a - a.a) * t, b: a.b + (b.b - a.b) * t });
+  const hex = gamutMapToHex(lch);
+  if (!isInGamut(lch)) {
+    onGamutMapped?.(hex);
+  }
+  return hex;
+};
+
+// Base color first, then evenly stepped mixes toward `target` that stop short of reaching it
+const generateMixRamp = (
+  baseColor: string,
+  target: string,
+  swatchCount: number,
+  colorSpace: GenerationSpace,
+  onGamutMapped?: (hexColor: string) => void
+): string[] => {
+  const standardHex = standardizeHexColor(baseColor);
+  const count = Math.max(3, swatchCount);
+
+  return Array.from({ length: count }, (_, i) =>
+    i === 0 ? standardHex : mixColors(standardHex, target, i / count, colorSpace, onGamutMapped)
+  );
+};
+
+export const generateTintsPalette = (
+  baseColor: string,
+  swatchCount: number = 5,
+  colorSpace: GenerationSpace = 'hsl',
+  onGamutMapped?: (hexColor: string) => void
+): string[] => generateMixRamp(baseColor, '#ffffff', swatchCount, colorSpace, onGamutMapped);
+
+export const generateShadesPalette = (
+  baseColor: string,
+  swatchCount: number = 5,
+  colorSpace: GenerationSpace = 'hsl',
+  onGamutMapped?: (hexColor: string) => void
+): string[] => generateMixRamp(baseColor, '#000000', swatchCount, colorSpace, onGamutMapped);
+
+// Tones mix toward the neutral gray of the base's own lightness, so only colorfulness drops
+export const generateTonesPalette = (
+  baseColor: string,
+  swatchCount: number = 5,
+  colorSpace: GenerationSpace = 'hsl',
+  onGamutMapped?: (hexColor: string) => void
+): string[] => {
+  const gray = oklabToHex({ l: hexToOklab(baseColor).l, a: 0, b: 0 });
+  return generateMixRamp(baseColor, gray, swatchCount, colorSpace, onGamutMapped);
+};
+
+export type PaletteGenerator = (
+  baseColor: string,
+  swatchCount: number,
+  colorSpace: GenerationSpace,
+  onGamutMapped?: (hexColor: string) => void,
+  options?: PaletteOptions
+) => string[];
+
+export interface PaletteGeneratorDefinition {
+  id: PaletteType;
+  label: string;
+  description: string;
+  // Fewest swatches the harmony needs; smaller counts are raised to this
+  minSwatches: number;
+  generate: PaletteGenerator;
+}
+
+// Registered generators in registration order, which is the order they are listed in
+const paletteGenerators = new Map<PaletteType, PaletteGeneratorDefinition>();
+
+export const DEFAULT_PALETTE_TYPE: PaletteType = 'monochromatic';
+
+/**
+ * Adds a palette generator. Validation, the type dropdown, share URLs and the
+ * 404 page all read from this registry, so a registered generator shows up
+ * everywhere. Ids must be unique and URL-safe.
+**/
+export const registerPaletteGenerator = (definition: PaletteGeneratorDefinition): void => {
+  if (!/^[a-z0-9-]+$/.test(definition.id)) {
+    throw new Error(`Invalid palette generator id "${definition.id}": use lowercase letters, digits and dashes`);
+  }
+  if (paletteGenerators.has(definition.id)) {
+    throw new Error(`A palette generator with id "${definition.id}" is already registered`);
+  }
+  paletteGenerators.set(definition.id, definition);
+};
+
+export const getPaletteGenerators = (): PaletteGeneratorDefinition[] => Array.from(paletteGenerators.values());
+
+export const getPaletteGenerator = (type: PaletteType): PaletteGeneratorDefinition | undefined =>
+  paletteGenerators.get(type);
+
+export const isPaletteType = (type: string): type is PaletteType => paletteGenerators.has(type);
+
+export const getMinSwatches = (type: PaletteType): number =>
+  getPaletteGenerator(type)?.minSwatches ?? 3;
+
+registerPaletteGenerator({
+  id: 'monochromatic',
+  label: 'Mono',
+  description: 'Tints and shades of the base color',
+  minSwatches: 3,
+  generate: generateMonochromaticPalette
+});
+
+registerPaletteGenerator({
+  id: 'analogous',
+  label: 'Analogous',
+  description: 'Neighbouring hues on either side',
+  minSwatches: 3,
+  generate: generateAnalogousPalette
+});
+
+registerPaletteGenerator({
+  id: 'complementary',
+  label: 'Complementary',
+  description: 'The base and its opposite hue',
+  minSwatches: 4,
+  generate: generateComplementaryPalette
+});
+
+registerPaletteGenerator({
+  id: 'triadic',
+  label: 'Triadic',
+  description: 'Three hues 120° apart',
+  minSwatches: 3,
+  generate: generateTriadicPalette
+});
+
+registerPaletteGenerator({
+  id: 'tetradic',
+  label: 'Tetradic',
+  description: 'Four hues 90° apart',
+  minSwatches: 4,
+  generate: generateTetradicPalette
+});
+
+registerPaletteGenerator({
+  id: 'split-complementary',
+  label: 'Split',
+  description: 'The base and the two hues beside its complement',
+  minSwatches: 3,
+  generate: generateSplitComplementaryPalette
+});
+
+registerPaletteGenerator({
+  id: 'square',
+  label: 'Square',
+  description: 'Four hues 90° apart, evenly varied',
+  minSwatches: 4,
+  generate: generateSquarePalette
+});
+
+registerPaletteGenerator({
+  id: 'double-split-complementary',
+  label: 'Double split',
+  description: 'The base, its neighbours and the hues beside its complement',
+  minSwatches: 5,
+  generate: generateDoubleSplitComplementaryPalette
+});
+
+registerPaletteGenerator({
+  id: 'compound',
+  label: 'Compound',
+  description: 'The base and an analogous hue, backed by hues near the complement',
+  minSwatches: 4,
+  generate: generateCompoundPalette
+});
+
+registerPaletteGenerator({
+  id: 'tints',
+  label: 'Tints',
+  description: 'The base mixed toward white',
+  minSwatches: 3,
+  generate: generateTintsPalette
+});
+
+registerPaletteGenerator({
+  id: 'tones',
+  label: 'Tones',
+  description: 'The base mixed toward gray',
+  minSwatches: 3,
+  generate: generateTonesPalette
+});
+
+registerPaletteGenerator({
+  id: 'shades',
+  label: 'Shades',
+  description: 'The base mixed toward black',
+  minSwatches: 3,
+  generate: generateShadesPalette
+});
+
+registerPaletteGenerator({
+  id: CUSTOM_PALETTE_TYPE,
+  label: 'Custom',
+  description: 'Your own hue offsets',
+  minSwatches: 3,
+  generate: (baseColor, swatchCount, colorSpace, onGamutMapped, options) =>
+    generateCustomHarmonyPalette(baseColor, options?.harmony, swatchCount, colorSpace, onGamutMapped)
+});
+
+export type AlphaMode = 'fixed' | 'ramp';
+
+// How swatches that collide with another one are varied: lighter, darker,
+// less saturated, or 'auto' stepping both ways in lightness
+export type VariationStrategy = 'auto' | 'tints' | 'shades' | 'tones';
+
+export interface PaletteOptions {
+  // 'fixed' gives every swatch the base color's alpha, 'ramp' fades from it
+  // down to ALPHA_RAMP_END of it across the palette
+  alphaMode?: AlphaMode;
+  // Smallest CIEDE2000 distance allowed between two swatches; with 0 or unset,
+  // swatches are only kept from being exact duplicates
+  minDistance?: number;
+  variation?: VariationStrategy;
+  // Hue offsets used by the custom harmony generator
+  harmony?: HarmonyStop[];
+  // Further colors kept unchanged alongside the base color, which is always the first anchor
+  anchors?: string[];
+  // Colors locked in place by swatch index, null for swatches free to change
+  locked?: (string | null)[];
+}
+
+const ALPHA_RAMP_END = 0.2;
+
+export const applyAlpha = (colors: string[], baseAlpha: number, mode: AlphaMode = 'fixed'): string[] => {
+  return colors.map((color, index) => {
+    if (mode === 'fixed' || colors.length < 2) {
+      return withAlpha(color, baseAlpha);
+    }
+    const t = index / (colors.length - 1);
+    return withAlpha(color, baseAlpha * (1 - t * (1 - ALPHA_RAMP_END)));
+  });
+};
+
+const VARIATION_STEP = 0.04;
+const VARIATION_MAX_STEPS = 20;
+
+// Lightness levels swept for a swatch that would still duplicate another after its variations
+const DISTINCT_SWEEP_STEPS = 200;
+
+// Lightness and saturation offsets tried in order on a colliding swatch
+const variationOffsets = (strategy: VariationStrategy): { l: number; s: number }[] => {
+  const offsets: { l: number; s: number }[] = [];
+  for (let step = 1; step <= VARIATION_MAX_STEPS; step++) {
+    const delta = step * VARIATION_STEP;
+    if (strategy === 'tints') {
+      offsets.push({ l: delta, s: -delta / 2 });
+    } else if (strategy === 'shades') {
+      offsets.push({ l: -delta, s: delta / 4 });
+    } else if (strategy === 'tones') {
+      offsets.push({ l: 0, s: -2 * delta });
     } else {
-      result.push(hslToHex(h, Math.min(1.0, s + 0.1), Math.max(0.1, l - 0.1)));
+      offsets.push({ l: delta, s: 0 }, { l: -delta, s: 0 });
     }
   }
-  
-  // Add split complement 1 variations
-  for (let i = 0; i < split1Count; i++) {
-    result.push(hslToHex(splitComplement1H, s, l));
+
+  // Fall back to stepping either way in lightness once the strategy runs out of room
+  return strategy === 'auto' ? offsets : [...offsets, ...variationOffsets('auto')];
+};
+
+/**
+ * Moves swatches until every pair is at least `minDistance` apart (CIEDE2000).
+ * The swatches at `fixedIndices` (the base color and any anchors) are never
+ * moved; the others are checked in order and varied around their own hue with
+ * the given strategy. When no variation gets far enough, the one furthest from
+ * its neighbours wins. A swatch is never left an exact duplicate of another:
+ * if every variation still is, the whole lightness range of its hue is swept
+ * for the level furthest from the others.
+**/
+export const spreadSwatches = (
+  colors: string[],
+  minDistance: number,
+  strategy: VariationStrategy = 'auto',
+  colorSpace: GenerationSpace = 'hsl',
+  fixedIndices: number[] = [0],
+  onGamutMapped?: (hexColor: string) => void
+): string[] => {
+  if (colors.length < 2) {
+    return colors;
   }
-  
-  // Add split complement 2 variations
-  for (let i = 0; i < split2Count; i++) {
-    result.push(hslToHex(splitComplement2H, s, l));
+
+  let candidateMapped = false;
+  const space = createGenerationSpace(colorSpace, () => { candidateMapped = true; });
+  const offsets = variationOffsets(strategy);
+
+  const result = [...colors];
+  const placed: Lab[] = [];
+  const closest = (lab: Lab) => Math.min(Infinity, ...placed.map(other => deltaE2000(lab, other)));
+  // Far enough from every placed swatch, and never identical to one
+  const isDistinct = (distance: number) => distance > 0 && distance >= minDistance;
+
+  const order = [...fixedIndices, ...colors.keys()].filter((index, position, all) => all.indexOf(index) === position);
+  for (const index of order) {
+    let best = colors[index];
+    let bestLab = hexToLab(best);
+    let bestDistance = closest(bestLab);
+    let bestMapped = false;
+
+    if (!fixedIndices.includes(index) && !isDistinct(bestDistance)) {
+      const { h, s, l } = space.toComponents(colors[index]);
+      const tryCandidate = (saturation: number, lightness: number) => {
+        candidateMapped = false;
+        const candidate = space.fromComponents(h, saturation, lightness);
+        const lab = hexToLab(candidate);
+        const distance = closest(lab);
+
+        if (distance > bestDistance) {
+          best = candidate;
+          bestLab = lab;
+          bestDistance = distance;
+          bestMapped = candidateMapped;
+        }
+        return distance;
+      };
+
+      for (const offset of offsets) {
+        const distance = tryCandidate(
+          Math.min(1, Math.max(0, s + offset.s)),
+          Math.min(Math.max(l, 0.97), Math.max(Math.min(l, 0.05), l + offset.l))
+        );
+        if (isDistinct(distance)) {
+          break;
+        }
+      }
+
+      // Every variation is taken (a gray or extreme base at a high count), so look further
+      if (bestDistance === 0) {
+        for (let step = 0; step <= DISTINCT_SWEEP_STEPS; step++) {
+          tryCandidate(s, step / DISTINCT_SWEEP_STEPS);
+        }
+      }
+
+      if (bestMapped) {
+        onGamutMapped?.(best);
+      }
+    }
+
+    result[index] = best;
+    placed.push(bestLab);
   }
-  
+
   return result;
 };
 
+// Most anchor colors a palette can be built around, the base color included
+export const MAX_ANCHORS = 6;
+
+export interface AnchoredPalette {
+  colors: string[];
+  // Where each anchor ended up, in anchor order
+  anchorIndices: number[];
+}
+
+/**
+ * Builds a palette around several anchor colors, kept unchanged and in order.
+ * The free swatches are shared between the gaps between neighbouring anchors,
+ * filled with steps interpolated in OKLab, and a group of extras at the end
+ * taken from the selected generator's harmonies of the anchors, picking each
+ * time the candidate furthest (CIEDE2000) from everything already placed.
+ * Throws a RangeError when there are more anchors than swatches.
+**/
+export const generateAnchoredPalette = (
+  anchors: string[],
+  type: PaletteType = DEFAULT_PALETTE_TYPE,
+  swatchCount: number = 5,
+  colorSpace: GenerationSpace = 'hsl',
+  options: PaletteOptions = {},
+  onGamutMapped?: (hexColor: string) => void
+): AnchoredPalette => {
+  const standardAnchors = anchors.map(standardizeHexColor);
+  if (standardAnchors.length > swatchCount) {
+    throw new RangeError(`${standardAnchors.length} anchors don't fit in ${swatchCount} swatches`);
+  }
+  const free = swatchCount - standardAnchors.length;
+
+  // One equal share per gap, then one for the extras; ties go to the gaps
+  const shares = distributeSwatches(new Array(standardAnchors.length).fill(1), free);
+  const extraCount = shares.pop()!;
+
+  const colors: string[] = [];
+  const anchorIndices: number[] = [];
+  standardAnchors.forEach((anchor, index) => {
+    anchorIndices.push(colors.length);
+    colors.push(anchor);
+
+    const next = standardAnchors[index + 1];
+    const steps = next ? shares[index] : 0;
+    for (let step = 1; step <= steps; step++) {
+      colors.push(mixColors(anchor, next, step / (steps + 1), 'oklch', onGamutMapped));
+    }
+  });
+
+  if (extraCount > 0) {
+    const generator = getPaletteGenerator(type) ?? getPaletteGenerator(DEFAULT_PALETTE_TYPE)!;
+    const candidateCount = Math.max(generator.minSwatches, extraCount + 1);
+    const candidates = standardAnchors
+      .flatMap(anchor => generator.generate(anchor, candidateCount, colorSpace, onGamutMapped, options))
+      .map(color => ({ color, lab: hexToLab(color) }));
+    const placed = colors.map(hexToLab);
+    const closest = (lab: Lab) => Math.min(...placed.map(other => deltaE2000(lab, other)));
+
+    for (let i = 0; i < extraCount && candidates.length > 0; i++) {
+      let bestIndex = 0;
+      let bestDistance = -Infinity;
+      candidates.forEach((candidate, index) => {
+        const distance = closest(candidate.lab);
+        if (distance > bestDistance) {
+          bestIndex = index;
+          bestDistance = distance;
+        }
+      });
+
+      const [{ color, lab }] = candidates.splice(bestIndex, 1);
+      colors.push(color);
+      placed.push(lab);
+    }
+  }
+
+  return { colors, anchorIndices };
+};
+
+export interface LockedPalette {
+  colors: string[];
+  // Swatches that must not move: the locked ones and the kept ones at their new positions
+  fixedIndices: number[];
+}
+
+/**
+ * Puts locked colors back at their positions in a freshly generated palette.
+ * Each locked color takes over the harmony role of the generated color nearest
+ * to it (CIEDE2000), which is dropped, except for the colors at `keepIndices`
+ * (the base color and anchors). The remaining colors fill the unlocked swatches
+ * in their generated order.
+**/
+export const applyLockedSwatches = (
+  colors: string[],
+  locked: (string | null)[],
+  keepIndices: number[] = []
+): LockedPalette => {
+  const lockedEntries = locked
+    .slice(0, colors.length)
+    .map((color, index) => ({ color, index }))
+    .filter((entry): entry is { color: string; index: number } => entry.color !== null);
+  if (lockedEntries.length === 0) {
+    return { colors, fixedIndices: keepIndices };
+  }
+
+  const remaining = colors.map((color, index) => ({ color, lab: hexToLab(color), kept: keepIndices.includes(index) }));
+  for (const { color } of lockedEntries) {
+    const lab = hexToLab(color);
+    let nearest = -1;
+    remaining.forEach((candidate, index) => {
+      if (!candidate.kept && (nearest < 0 || deltaE2000(lab, candidate.lab) < deltaE2000(lab, remaining[nearest].lab))) {
+        nearest = index;
+      }
+    });
+    // With every free role taken, the last generated color makes room
+    remaining.splice(nearest < 0 ? remaining.length - 1 : nearest, 1);
+  }
+
+  const result = new Array<string | undefined>(colors.length);
+  lockedEntries.forEach(({ color, index }) => { result[index] = color; });
+  const fixedIndices = lockedEntries.map(({ index }) => index);
+  for (let index = 0; index < result.length; index++) {
+    if (result[index] === undefined) {
+      const next = remaining.shift()!;
+      result[index] = next.color;
+      if (next.kept) {
+        fixedIndices.push(index);
+      }
+    }
+  }
+
+  return { colors: result as string[], fixedIndices };
+};
+
+export interface GeneratedPalette {
+  colors: string[];
+  // Whether each swatch was gamut-mapped into sRGB during generation
+  gamutMapped: boolean[];
+}
+
+export const generatePaletteDetailed = (
+  baseColor: string,
+  type: PaletteType = DEFAULT_PALETTE_TYPE,
+  swatchCount: number = 5,
+  colorSpace: GenerationSpace = 'hsl',
+  options: PaletteOptions = {}
+): GeneratedPalette => {
+  const mapped = new Set<string>();
+
+  // Harmonies are generated from the opaque color, then alpha is applied on top
+  const baseAlpha = getAlpha(baseColor);
+  const opaqueBase = withAlpha(baseColor, 1);
+  const onGamutMapped = (hexColor: string) => mapped.add(hexColor);
+
+  // With further anchors the palette is built around all of them, otherwise around the base alone
+  const anchors = options.anchors && options.anchors.length > 0
+    ? [opaqueBase, ...options.anchors.map(anchor => withAlpha(anchor, 1))].slice(0, MAX_ANCHORS)
+    : null;
+  let harmony: string[];
+  let fixedIndices: number[];
+  if (anchors) {
+    ({ colors: harmony, anchorIndices: fixedIndices } = generateAnchoredPalette(
+      anchors, type, swatchCount, colorSpace, options, onGamutMapped
+    ));
+  } else {
+    harmony = generateOpaquePalette(opaqueBase, type, swatchCount, colorSpace, options, onGamutMapped);
+    fixedIndices = [Math.max(0, harmony.indexOf(opaqueBase))];
+  }
+
+  // Locked swatches are constraints: they replace the roles nearest to them and never move
+  const locked = options.locked ?? [];
+  const opaqueLocked = locked.map(color => color && withAlpha(color, 1));
+  ({ colors: harmony, fixedIndices } = applyLockedSwatches(harmony, opaqueLocked, fixedIndices));
+
+  // Spread colliding swatches apart, keeping the base color, anchors and locked swatches where they are
+  const opaqueColors = spreadSwatches(
+    harmony,
+    options.minDistance ?? 0,
+    options.variation,
+    colorSpace,
+    fixedIndices,
+    onGamutMapped
+  );
+
+  // Locked swatches also keep their own alpha
+  return {
+    colors: applyAlpha(opaqueColors, baseAlpha, options.alphaMode).map((color, index) => locked[index] ?? color),
+    gamutMapped: opaqueColors.map((color, index) => !locked[index] && mapped.has(color))
+  };
+};
+
 export const generatePalette = (
   baseColor: string, 
-  type: PaletteType = 'monochromatic',
-  swatchCount: number = 5
+  type: PaletteType = DEFAULT_PALETTE_TYPE,
+  swatchCount: number = 5,
+  colorSpace: GenerationSpace = 'hsl',
+  options: PaletteOptions = {}
 ): string[] => {
-  switch (type) {
-    case 'analogous':
-      return generateAnalogousPalette(baseColor, swatchCount);
-    case 'complementary':
-      return generateComplementaryPalette(baseColor, swatchCount);
-    case 'triadic':
-      return generateTriadicPalette(baseColor, swatchCount);
-    case 'tetradic':
-      return generateTetradicPalette(baseColor, swatchCount);
-    case 'split-complementary':
-      return generateSplitComplementaryPalette(baseColor, swatchCount);
-    case 'monochromatic':
-    default:
-      return generateMonochromaticPalette(baseColor, swatchCount);
-  }
+  return generatePaletteDetailed(baseColor, type, swatchCount, colorSpace, options).colors;
 };
 
-export const getContrastColor = (hexColor: string): string => {
-  const hex = hexColor.replace('#', '');
-  const r = parseInt(hex.substring(0, 2), 16);
-  const g = parseInt(hex.substring(2, 4), 16);
-  const b = parseInt(hex.substring(4, 6), 16);
-  
-  const yiq = ((r * 299) + (g * 587) + (b * 114)) / 1000;
-  
-  return yiq >= 128 ? '#000000' : '#ffffff';
-};
\ No newline at end of file
+// Unknown types fall back to the default generator
+const generateOpaquePalette = (
+  baseColor: string,
+  type: PaletteType,
+  swatchCount: number,
+  colorSpace: GenerationSpace,
+  options: PaletteOptions,
+  onGamutMapped?: (hexColor: string) => void
+): string[] => {
+  const generator = getPaletteGenerator(type) ?? getPaletteGenerator(DEFAULT_PALETTE_TYPE)!;
+  return generator.generate(baseColor, Math.max(generator.minSwatches, swatchCount), colorSpace, onGamutMapped, options);
+};
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import {
+  ContrastEnforcement,
+  enforceContrast,
+  enforcePaletteContrast,
+  getApcaContrast,
+  getContrastRatio,
+  getWcagLevel,
+  meetsContrastTarget
+} from '@/lib/contrast';
+
+const AA_ON_WHITE: ContrastEnforcement = { target: { kind: 'wcag', level: 'AA' }, against: '#ffffff' };
+const AAA_TEXT: ContrastEnforcement = { target: { kind: 'wcag', level: 'AAA' }, against: 'text' };
+
+describe('getContrastRatio', () => {
+  it('runs from 1 for the same color to 21 for black on white', () => {
+    expect(getContrastRatio('#777777', '#777777')).toBeCloseTo(1);
+    expect(getContrastRatio('#000000', '#ffffff')).toBeCloseTo(21);
+  });
+
+  it('does not depend on the order of the colors', () => {
+    expect(getContrastRatio('#3b82f6', '#ffffff')).toBeCloseTo(getContrastRatio('#ffffff', '#3b82f6'));
+  });
+
+  it('composites a translucent foreground over the background', () => {
+    expect(getContrastRatio('#00000000', '#ffffff')).toBeCloseTo(1);
+  });
+});
+
+describe('getWcagLevel', () => {
+  it('grades ratios against the normal and large text thresholds', () => {
+    expect(getWcagLevel(7)).toBe('AAA');
+    expect(getWcagLevel(4.5)).toBe('AA');
+    expect(getWcagLevel(3)).toBe('AA Large');
+    expect(getWcagLevel(2.9)).toBe('Fail');
+    expect(getWcagLevel(4.5, true)).toBe('AAA');
+  });
+});
+
+describe('getApcaContrast', () => {
+  it('is positive for dark text on light backgrounds and negative the other way round', () => {
+    expect(getApcaContrast('#000000', '#ffffff')).toBeGreaterThan(100);
+    expect(getApcaContrast('#ffffff', '#000000')).toBeLessThan(-100);
+  });
+});
+
+describe('enforceContrast', () => {
+  it('leaves colors that already meet the target alone', () => {
+    expect(enforceContrast('#1e3a8a', AA_ON_WHITE)).toEqual({ original: '#1e3a8a', color: '#1e3a8a', deltaL: 0, met: true });
+  });
+
+  it('darkens a light color until it meets the target on white', () => {
+    const adjustment = enforceContrast('#aaaaaa', AA_ON_WHITE);
+    expect(adjustment.met).toBe(true);
+    expect(adjustment.deltaL).toBeLessThan(0);
+    expect(getContrastRatio(adjustment.color, '#ffffff')).toBeGreaterThanOrEqual(4.5);
+    // The smallest change: a little less would miss the target
+    expect(getContrastRatio(adjustment.color, '#ffffff')).toBeLessThan(4.7);
+  });
+
+  it('moves a color until its own text color meets the target', () => {
+    const adjustment = enforceContrast('#777777', AAA_TEXT);
+    expect(adjustment.met).toBe(true);
+    expect(meetsContrastTarget(adjustment.color, AAA_TEXT)).toBe(true);
+  });
+
+  it('returns the best it found, unmet, when the target is out of reach', () => {
+    const unreachable: ContrastEnforcement = { target: { kind: 'apca', lc: 110 }, against: '#808080' };
+    const adjustment = enforceContrast('#7f7f7f', unreachable);
+    expect(adjustment.met).toBe(false);
+    expect(Math.abs(getApcaContrast(adjustment.color, '#808080'))).toBeGreaterThan(Math.abs(getApcaContrast('#7f7f7f', '#808080')));
+  });
+});
+
+describe('enforcePaletteContrast', () => {
+  it('adjusts every swatch but the fixed ones, which are only reported', () => {
+    const [free, fixed] = enforcePaletteContrast(['#aaaaaa', '#bbbbbb'], AA_ON_WHITE, [1]);
+    expect(free.met).toBe(true);
+    expect(free.color).not.toBe('#aaaaaa');
+    expect(fixed).toEqual({ original: '#bbbbbb', color: '#bbbbbb', deltaL: 0, met: false });
+  });
+});
@@ -0,0 +1,226 @@
+import { gamutMapToHex, getAlpha, hexToOklch, hexToRgb, rgbToHex, RGB, srgbToLinear, withAlpha } from '@/lib/colors';
+
+export type WcagLevel = 'AAA' | 'AA' | 'AA Large' | 'Fail';
+
+// WCAG 2.1 thresholds for normal and large (18pt, or 14pt bold) text
+const WCAG_THRESHOLDS = {
+  normal: { AA: 4.5, AAA: 7 },
+  large: { AA: 3, AAA: 4.5 }
+};
+
+// Translucent colors are judged as they appear over the backdrop
+export const compositeOver = (hexColor: string, backdrop: string = '#ffffff'): RGB => {
+  const alpha = getAlpha(hexColor);
+  const color = hexToRgb(hexColor);
+  const base = hexToRgb(backdrop);
+
+  return {
+    r: color.r * alpha + base.r * (1 - alpha),
+    g: color.g * alpha + base.g * (1 - alpha),
+    b: color.b * alpha + base.b * (1 - alpha)
+  };
+};
+
+// Opaque color a translucent background ends up as on the page
+const withoutAlpha = (hexColor: string): string => rgbToHex(compositeOver(hexColor));
+
+export const getRelativeLuminance = (hexColor: string, backdrop?: string): number => {
+  const { r, g, b } = compositeOver(hexColor, backdrop);
+  return 0.2126 * srgbToLinear(r) + 0.7152 * srgbToLinear(g) + 0.0722 * srgbToLinear(b);
+};
+
+/**
+ * WCAG 2.1 contrast ratio between two colors, from 1 to 21. The order of the
+ * arguments does not matter. A translucent foreground is composited over the
+ * background.
+**/
+export const getContrastRatio = (foreground: string, background: string): number => {
+  const backgroundLuminance = getRelativeLuminance(background);
+  const foregroundLuminance = getRelativeLuminance(foreground, withoutAlpha(background));
+  const lighter = Math.max(backgroundLuminance, foregroundLuminance);
+  const darker = Math.min(backgroundLuminance, foregroundLuminance);
+
+  return (lighter + 0.05) / (darker + 0.05);
+};
+
+export const getWcagLevel = (ratio: number, largeText: boolean = false): WcagLevel => {
+  const thresholds = largeText ? WCAG_THRESHOLDS.large : WCAG_THRESHOLDS.normal;
+
+  if (ratio >= thresholds.AAA) return 'AAA';
+  if (ratio >= thresholds.AA) return 'AA';
+  if (!largeText && ratio >= WCAG_THRESHOLDS.large.AA) return 'AA Large';
+  return 'Fail';
+};
+
+// APCA (SAPC 0.0.98G-4g) constants
+const APCA = {
+  mainTRC: 2.4,
+  rCo: 0.2126729,
+  gCo: 0.7151522,
+  bCo: 0.072175,
+  normBG: 0.56,
+  normTXT: 0.57,
+  revTXT: 0.62,
+  revBG: 0.65,
+  blkThrs: 0.022,
+  blkClmp: 1.414,
+  scale: 1.14,
+  loOffset: 0.027,
+  deltaYmin: 0.0005,
+  loClip: 0.1
+};
+
+const apcaLuminance = ({ r, g, b }: RGB): number => {
+  const y = APCA.rCo * Math.pow(r, APCA.mainTRC)
+    + APCA.gCo * Math.pow(g, APCA.mainTRC)
+    + APCA.bCo * Math.pow(b, APCA.mainTRC);
+
+  // Soft clamp near black
+  return y > APCA.blkThrs ? y : y + Math.pow(APCA.blkThrs - y, APCA.blkClmp);
+};
+
+/**
+ * APCA lightness contrast (Lc) of text on a background, roughly -108 to 106.
+ * Positive values are dark text on a light background, negative values light
+ * text on a dark background. Unlike WCAG 2, the order of arguments matters.
+**/
+export const getApcaContrast = (text: string, background: string): number => {
+  const backgroundY = apcaLuminance(compositeOver(background));
+  const textY = apcaLuminance(compositeOver(text, withoutAlpha(background)));
+
+  if (Math.abs(backgroundY - textY) < APCA.deltaYmin) {
+    return 0;
+  }
+
+  if (backgroundY > textY) {
+    const sapc = (Math.pow(backgroundY, APCA.normBG) - Math.pow(textY, APCA.normTXT)) * APCA.scale;
+    return sapc < APCA.loClip ? 0 : (sapc - APCA.loOffset) * 100;
+  }
+
+  const sapc = (Math.pow(backgroundY, APCA.revBG) - Math.pow(textY, APCA.revTXT)) * APCA.scale;
+  return sapc > -APCA.loClip ? 0 : (sapc + APCA.loOffset) * 100;
+};
+
+/**
+ * Picks black or white text for a background, whichever has the higher
+ * WCAG contrast ratio.
+**/
+export const getContrastColor = (hexColor: string): string => {
+  const blackRatio = getContrastRatio('#000000', hexColor);
+  const whiteRatio = getContrastRatio('#ffffff', hexColor);
+
+  return blackRatio >= whiteRatio ? '#000000' : '#ffffff';
+};
+
+export type ContrastTarget =
+  | { kind: 'wcag'; level: 'AA' | 'AAA' }
+  | { kind: 'apca'; lc: number };
+
+/**
+ * What each swatch must contrast with: its own black/white text color
+ * (`'text'`), or a background hex color the swatch is used on.
+**/
+export interface ContrastEnforcement {
+  target: ContrastTarget;
+  against: 'text' | string;
+}
+
+export interface ContrastAdjustment {
+  original: string;
+  color: string;
+  // Change in OKLCH lightness, 0 when the swatch already met the target
+  deltaL: number;
+  met: boolean;
+}
+
+export const describeContrastTarget = (target: ContrastTarget): string =>
+  target.kind === 'wcag' ? `WCAG ${target.level}` : `APCA Lc ${target.lc}`;
+
+// How far a color is from the target, in the target's own units (>= 0 means met)
+const contrastMargin = (color: string, enforcement: ContrastEnforcement): number => {
+  const { target, against } = enforcement;
+  const [text, background] = against === 'text'
+    ? [getContrastColor(color), color]
+    : [color, against];
+
+  if (target.kind === 'wcag') {
+    return getContrastRatio(text, background) - WCAG_THRESHOLDS.normal[target.level];
+  }
+  return Math.abs(getApcaContrast(text, background)) - target.lc;
+};
+
+export const meetsContrastTarget = (color: string, enforcement: ContrastEnforcement): boolean =>
+  contrastMargin(color, enforcement) >= 0;
+
+/**
+ * Moves a color along OKLCH lightness, keeping hue and (gamut allowing)
+ * chroma, by the smallest amount that meets the contrast target. Both
+ * directions are searched; when the target is out of reach the color with
+ * the best contrast is returned with `met: false`.
+**/
+export const enforceContrast = (color: string, enforcement: ContrastEnforcement): ContrastAdjustment => {
+  if (meetsContrastTarget(color, enforcement)) {
+    return { original: color, color, deltaL: 0, met: true };
+  }
+
+  const alpha = getAlpha(color);
+  const lch = hexToOklch(color);
+  const withLightness = (l: number) => withAlpha(gamutMapToHex({ ...lch, l }), alpha);
+
+  const COARSE_STEP = 0.01;
+  const PRECISION = 0.0005;
+  let best: ContrastAdjustment | null = null;
+  let fallback = { color, deltaL: 0, margin: contrastMargin(color, enforcement) };
+
+  for (const direction of [1, -1]) {
+    const maxDelta = direction > 0 ? 1 - lch.l : lch.l;
+    const lightnessAt = (delta: number) => lch.l + direction * delta;
+    let previous = 0;
+
+    for (let step = 1; maxDelta > 0; step++) {
+      const delta = Math.min(step * COARSE_STEP, maxDelta);
+      const candidate = withLightness(lightnessAt(delta));
+      const margin = contrastMargin(candidate, enforcement);
+
+      if (margin > fallback.margin) {
+        fallback = { color: candidate, deltaL: direction * delta, margin };
+      }
+
+      if (margin >= 0) {
+        // Narrow down between the last failing and the first passing step
+        let low = previous;
+        let high = delta;
+        while (high - low > PRECISION) {
+          const mid = (low + high) / 2;
+          if (contrastMargin(withLightness(lightnessAt(mid)), enforcement) >= 0) {
+            high = mid;
+          } else {
+            low = mid;
+          }
+        }
+
+        if (!best || high < Math.abs(best.deltaL)) {
+          best = { original: color, color: withLightness(lightnessAt(high)), deltaL: direction * high, met: true };
+        }
+        break;
+      }
+
+      previous = delta;
+      if (delta === maxDelta) break;
+    }
+  }
+
+  return best ?? { original: color, color: fallback.color, deltaL: fallback.deltaL, met: false };
+};
+
+/**
+ * Enforces the target on every swatch but the fixed ones (locked swatches),
+ * which keep their color and are only reported as unmet.
+**/
+export const enforcePaletteContrast = (
+  colors: string[],
+  enforcement: ContrastEnforcement,
+  fixedIndices: number[] = []
+): ContrastAdjustment[] => colors.map((color, index) => fixedIndices.includes(index)
+  ? { original: color, color, deltaL: 0, met: meetsContrastTarget(color, enforcement) }
+  : enforceContrast(color, enforcement));
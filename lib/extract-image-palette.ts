@@ -0,0 +1,41 @@
+import { DominantColor } from '@/lib/image-palette';
+import type { ExtractionRequest, ExtractionResponse } from '@/lib/palette-extraction.worker';
+
+// Longest side images are downsampled to before clustering
+const MAX_SAMPLE_SIZE = 128;
+
+/**
+ * Downsamples an image file on a canvas and extracts its dominant colors in a
+ * Web Worker. Rejects when the file can't be decoded as an image.
+**/
+export const extractPaletteFromImage = async (file: Blob, count: number): Promise<DominantColor[]> => {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, MAX_SAMPLE_SIZE / Math.max(bitmap.width, bitmap.height));
+  const width = Math.max(1, Math.round(bitmap.width * scale));
+  const height = Math.max(1, Math.round(bitmap.height * scale));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    bitmap.close();
+    throw new Error('Canvas is not available');
+  }
+  context.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+  const { data } = context.getImageData(0, 0, width, height);
+
+  const worker = new Worker(new URL('./palette-extraction.worker.ts', import.meta.url));
+  try {
+    return await new Promise<DominantColor[]>((resolve, reject) => {
+      worker.onmessage = (event: MessageEvent<ExtractionResponse>) => resolve(event.data.colors);
+      worker.onerror = (event) => reject(new Error(event.message || 'Palette extraction failed'));
+
+      const request: ExtractionRequest = { pixels: data, count };
+      worker.postMessage(request, [data.buffer]);
+    });
+  } finally {
+    worker.terminate();
+  }
+};
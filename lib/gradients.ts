@@ -0,0 +1,89 @@
+import { HueInterpolation, InterpolationSpace, interpolateColor } from '@/lib/colors';
+
+export type GradientKind = 'linear' | 'radial' | 'conic';
+
+export interface GradientStop {
+  color: string;
+  // Percent along the gradient line (or around the circle for conic)
+  position: number;
+}
+
+export interface GradientOptions {
+  kind: GradientKind;
+  // Direction for linear gradients, starting angle for conic ones
+  angle: number;
+  space: InterpolationSpace;
+  hue: HueInterpolation;
+}
+
+// Colors sampled per segment for browsers without interpolation-space support
+const FALLBACK_STEPS = 8;
+
+const formatPercent = (value: number): string => `${Number(value.toFixed(2))}%`;
+
+export const evenStopPositions = (count: number): number[] =>
+  count < 2 ? [0] : Array.from({ length: count }, (_, i) => (i * 100) / (count - 1));
+
+// Stops in position order, ties in the order given. Both the native gradient and the
+// fallback draw from this, since CSS would otherwise clamp stops that are out of order
+export const sortGradientStops = (stops: GradientStop[]): GradientStop[] =>
+  [...stops].sort((first, second) => first.position - second.position);
+
+// The CSS color interpolation method, e.g. `in oklch longer hue`
+export const formatInterpolationMethod = (space: InterpolationSpace, hue: HueInterpolation): string =>
+  space === 'oklch' ? `in oklch ${hue} hue` : `in ${space}`;
+
+const formatGradientFunction = (kind: GradientKind, angle: number, method: string | null, stops: GradientStop[]): string => {
+  const shape = {
+    linear: `${angle}deg`,
+    radial: 'circle',
+    conic: `from ${angle}deg`
+  }[kind];
+  const prelude = method ? `${shape} ${method}` : shape;
+  const colorStops = stops.map(({ color, position }) => `${color} ${formatPercent(position)}`);
+
+  return `${kind}-gradient(${[prelude, ...colorStops].join(', ')})`;
+};
+
+// Gradient using the CSS interpolation method, for browsers that support it
+export const formatGradient = (stops: GradientStop[], { kind, angle, space, hue }: GradientOptions): string =>
+  formatGradientFunction(kind, angle, formatInterpolationMethod(space, hue), sortGradientStops(stops));
+
+/**
+ * Adds stops sampled with `interpolateColor` between every pair of stops, so a
+ * plain sRGB gradient closely follows the one in the chosen space.
+**/
+export const expandGradientStops = (
+  stops: GradientStop[],
+  space: InterpolationSpace,
+  hue: HueInterpolation,
+  steps: number = FALLBACK_STEPS
+): GradientStop[] => {
+  const sorted = sortGradientStops(stops);
+  if (space === 'srgb') {
+    return sorted;
+  }
+
+  return sorted.flatMap((stop, index) => {
+    const next = sorted[index + 1];
+    if (!next || next.position === stop.position) {
+      return [stop];
+    }
+
+    return Array.from({ length: steps }, (_, step) => {
+      const t = step / steps;
+      return {
+        color: step === 0 ? stop.color : interpolateColor(stop.color, next.color, t, space, hue),
+        position: stop.position + (next.position - stop.position) * t
+      };
+    });
+  });
+};
+
+// sRGB gradient with the interpolation baked into extra stops; also used for the preview
+export const formatGradientFallback = (stops: GradientStop[], { kind, angle, space, hue }: GradientOptions): string =>
+  formatGradientFunction(kind, angle, null, expandGradientStops(stops, space, hue));
+
+// Copyable CSS: the fallback first, then the native gradient for browsers that understand it
+export const formatGradientCss = (stops: GradientStop[], options: GradientOptions): string =>
+  `background: ${formatGradientFallback(stops, options)};\nbackground: ${formatGradient(stops, options)};`;
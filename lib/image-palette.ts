@@ -0,0 +1,113 @@
+import { OKLab, createRandom, gamutMapToHex, oklabToOklch, rgbToOklab } from '@/lib/colors';
+
+export interface DominantColor {
+  color: string;
+  // Share of the sampled pixels in this color's cluster
+  weight: number;
+}
+
+// Pixels more transparent than this are left out of the clustering
+const MIN_ALPHA = 128;
+const MAX_ITERATIONS = 24;
+// Stop once no centroid moves further than this in OKLab
+const CONVERGENCE = 0.0005;
+
+const distanceSquared = (first: OKLab, second: OKLab): number =>
+  (first.l - second.l) ** 2 + (first.a - second.a) ** 2 + (first.b - second.b) ** 2;
+
+// Opaque pixels of an RGBA buffer, converted to OKLab
+export const pixelsToOklab = (pixels: Uint8ClampedArray): OKLab[] => {
+  const points: OKLab[] = [];
+  for (let i = 0; i < pixels.length; i += 4) {
+    if (pixels[i + 3] >= MIN_ALPHA) {
+      points.push(rgbToOklab({ r: pixels[i] / 255, g: pixels[i + 1] / 255, b: pixels[i + 2] / 255 }));
+    }
+  }
+  return points;
+};
+
+// k-means++: each next centroid is picked with probability proportional to its squared distance
+const seedCentroids = (points: OKLab[], count: number, random: () => number): OKLab[] => {
+  const centroids = [points[Math.floor(random() * points.length)]];
+  const distances = points.map(point => distanceSquared(point, centroids[0]));
+
+  while (centroids.length < count) {
+    const total = distances.reduce((sum, distance) => sum + distance, 0);
+    if (total === 0) break;
+
+    let target = random() * total;
+    let index = 0;
+    while (index < points.length - 1 && target >= distances[index]) {
+      target -= distances[index];
+      index++;
+    }
+
+    centroids.push(points[index]);
+    points.forEach((point, i) => {
+      distances[i] = Math.min(distances[i], distanceSquared(point, points[index]));
+    });
+  }
+
+  return centroids;
+};
+
+/**
+ * Finds the `count` dominant colors of an RGBA pixel buffer with k-means in
+ * OKLab, so clusters follow perceived color differences. Seeding uses the
+ * seeded PRNG, so an image always gives the same palette. Colors come back
+ * most prominent first; images with fewer distinct colors give fewer results.
+**/
+export const extractDominantColors = (
+  pixels: Uint8ClampedArray,
+  count: number,
+  seed: number = 0
+): DominantColor[] => {
+  const points = pixelsToOklab(pixels);
+  if (points.length === 0 || count < 1) {
+    return [];
+  }
+
+  let centroids = seedCentroids(points, count, createRandom(seed));
+  const assignments = new Array<number>(points.length).fill(0);
+
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    points.forEach((point, i) => {
+      let nearest = 0;
+      let nearestDistance = Infinity;
+      centroids.forEach((centroid, k) => {
+        const distance = distanceSquared(point, centroid);
+        if (distance < nearestDistance) {
+          nearest = k;
+          nearestDistance = distance;
+        }
+      });
+      assignments[i] = nearest;
+    });
+
+    const sums = centroids.map(() => ({ l: 0, a: 0, b: 0, size: 0 }));
+    points.forEach((point, i) => {
+      const sum = sums[assignments[i]];
+      sum.l += point.l;
+      sum.a += point.a;
+      sum.b += point.b;
+      sum.size++;
+    });
+
+    // Empty clusters keep their previous centroid
+    const next = sums.map((sum, k) => sum.size > 0
+      ? { l: sum.l / sum.size, a: sum.a / sum.size, b: sum.b / sum.size }
+      : centroids[k]);
+    const moved = Math.max(...next.map((centroid, k) => Math.sqrt(distanceSquared(centroid, centroids[k]))));
+    centroids = next;
+
+    if (moved < CONVERGENCE) break;
+  }
+
+  const sizes = centroids.map(() => 0);
+  assignments.forEach(k => sizes[k]++);
+
+  return centroids
+    .map((centroid, k) => ({ color: gamutMapToHex(oklabToOklch(centroid)), weight: sizes[k] / points.length }))
+    .filter(({ weight }) => weight > 0)
+    .sort((first, second) => second.weight - first.weight);
+};
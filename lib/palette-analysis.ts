@@ -0,0 +1,80 @@
+import { CVD_TYPES, CvdSimulation, CvdType, hexToLab, deltaE2000, simulateCvd } from '@/lib/colors';
+
+export type Vision = 'normal' | CvdType;
+
+// Below this CIEDE2000 distance two swatches are hard to tell apart at a glance
+export const DEFAULT_DISTINCT_THRESHOLD = 5;
+
+// Severity used for the anomalous (partial) deficiencies during analysis
+const ANOMALOUS_SEVERITY = 0.6;
+
+export interface IndistinctPair {
+  first: number;
+  second: number;
+  deltaE: number;
+  vision: Vision;
+}
+
+export interface DistinguishabilityReport {
+  pairs: IndistinctPair[];
+  // Pairs each swatch takes part in, indexed like the palette
+  bySwatch: IndistinctPair[][];
+}
+
+export const visionLabel = (vision: Vision): string =>
+  vision === 'normal' ? 'Normal vision' : CVD_TYPES.find(type => type.value === vision)?.label ?? vision;
+
+/**
+ * Flags every pair of swatches closer than `threshold` (CIEDE2000), under
+ * normal vision and under each color vision deficiency simulation.
+**/
+export const analyzeDistinguishability = (
+  colors: string[],
+  threshold: number = DEFAULT_DISTINCT_THRESHOLD
+): DistinguishabilityReport => {
+  const visions: { vision: Vision; simulation?: CvdSimulation }[] = [
+    { vision: 'normal' },
+    ...CVD_TYPES.map(type => ({
+      vision: type.value,
+      simulation: { type: type.value, severity: type.anomalous ? ANOMALOUS_SEVERITY : 1 }
+    }))
+  ];
+
+  const pairs: IndistinctPair[] = [];
+
+  for (const { vision, simulation } of visions) {
+    const labs = colors.map(color => hexToLab(simulation ? simulateCvd(color, simulation) : color));
+
+    for (let first = 0; first < labs.length; first++) {
+      for (let second = first + 1; second < labs.length; second++) {
+        const deltaE = deltaE2000(labs[first], labs[second]);
+        if (deltaE < threshold) {
+          pairs.push({ first, second, deltaE, vision });
+        }
+      }
+    }
+  }
+
+  const bySwatch: IndistinctPair[][] = colors.map(() => []);
+  for (const pair of pairs) {
+    bySwatch[pair.first].push(pair);
+    bySwatch[pair.second].push(pair);
+  }
+
+  return { pairs, bySwatch };
+};
+
+// One line per clashing swatch, e.g. "Too close to swatch 3 (ΔE00 1.2): Normal vision, Tritanopia"
+export const describeSwatchWarnings = (index: number, pairs: IndistinctPair[]): string[] => {
+  const byOther = new Map<number, IndistinctPair[]>();
+  for (const pair of pairs) {
+    const other = pair.first === index ? pair.second : pair.first;
+    byOther.set(other, [...(byOther.get(other) ?? []), pair]);
+  }
+
+  return Array.from(byOther.entries()).map(([other, otherPairs]) => {
+    const closest = Math.min(...otherPairs.map(pair => pair.deltaE));
+    const visions = otherPairs.map(pair => visionLabel(pair.vision)).join(', ');
+    return `Too close to swatch ${other + 1} (ΔE00 ${closest.toFixed(1)}): ${visions}`;
+  });
+};
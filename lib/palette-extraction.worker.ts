@@ -0,0 +1,18 @@
+import { DominantColor, extractDominantColors } from '@/lib/image-palette';
+
+export interface ExtractionRequest {
+  pixels: Uint8ClampedArray;
+  count: number;
+}
+
+export interface ExtractionResponse {
+  colors: DominantColor[];
+}
+
+// Runs k-means off the main thread so large images don't freeze the UI; its
+// default seed is fixed, so an image always gives the same colors
+self.addEventListener('message', (event: MessageEvent<ExtractionRequest>) => {
+  const { pixels, count } = event.data;
+  const response: ExtractionResponse = { colors: extractDominantColors(pixels, count) };
+  self.postMessage(response);
+});
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { PaletteSnapshot, describePaletteChange, isSameSnapshot } from '@/lib/palette-history';
+
+const SNAPSHOT: PaletteSnapshot = {
+  baseColor: '#3b82f6',
+  paletteType: 'analogous',
+  swatchCount: 5,
+  seed: null,
+  anchors: [],
+  locked: [],
+  overrides: [],
+  order: null,
+  colors: null,
+  settings: {
+    generationSpace: 'hsl',
+    alphaMode: 'fixed',
+    minDistance: 5,
+    variation: 'auto',
+    contrastEnforcement: null
+  },
+  harmony: null
+};
+
+describe('isSameSnapshot', () => {
+  it('compares snapshots by value', () => {
+    expect(isSameSnapshot(SNAPSHOT, { ...SNAPSHOT, settings: { ...SNAPSHOT.settings } })).toBe(true);
+    expect(isSameSnapshot(SNAPSHOT, { ...SNAPSHOT, settings: { ...SNAPSHOT.settings, minDistance: 0 } })).toBe(false);
+  });
+});
+
+describe('describePaletteChange', () => {
+  const describeFrom = (changes: Partial<PaletteSnapshot>) => describePaletteChange(SNAPSHOT, { ...SNAPSHOT, ...changes });
+
+  it('labels the first palette', () => {
+    expect(describePaletteChange(undefined, SNAPSHOT)).toEqual({ label: 'Initial palette', continuous: false });
+  });
+
+  it('names what changed', () => {
+    expect(describeFrom({ seed: 42 }).label).toBe('Shuffled');
+    expect(describeFrom({ baseColor: '#ff0000' }).label).toBe('Base color #ff0000');
+    expect(describeFrom({ swatchCount: 6 }).label).toBe('5 → 6 swatches');
+    expect(describeFrom({ locked: [null, '#123456'] }).label).toBe('Locked swatch 2');
+    expect(describeFrom({ anchors: ['#ff0000'] }).label).toBe('Changed anchors');
+    expect(describeFrom({ harmony: [{ offset: 90, saturation: 0, lightness: 0, weight: 1 }] }).label).toBe('Changed harmony');
+    expect(describeFrom({ settings: { ...SNAPSHOT.settings, variation: 'tints' } }).label).toBe('Regenerated with new settings');
+    expect(describeFrom({}).label).toBe('Regenerated');
+  });
+
+  it('tells an inserted swatch from imported colors', () => {
+    const imported = { ...SNAPSHOT, colors: ['#000000', '#111111', '#222222', '#333333', '#444444'] };
+    expect(describePaletteChange(SNAPSHOT, imported).label).toBe('Imported colors');
+    expect(describePaletteChange(imported, {
+      ...imported,
+      colors: [...imported.colors, '#0a0a0a'],
+      order: [0, 5, 1, 2, 3, 4]
+    }).label).toBe('Inserted a swatch');
+  });
+
+  it('marks edits and reorders as continuous so quick repeats share an entry', () => {
+    expect(describeFrom({ overrides: ['#000000'] })).toEqual({ label: 'Edited swatch 1', continuous: true });
+    expect(describeFrom({ order: [1, 0, 2, 3, 4] })).toEqual({ label: 'Reordered swatches', continuous: true });
+    expect(describePaletteChange({ ...SNAPSHOT, overrides: ['#000000'] }, SNAPSHOT)).toEqual({ label: 'Reset swatch 1', continuous: false });
+  });
+});
@@ -0,0 +1,98 @@
+import { HarmonyStop, PaletteType, getPaletteGenerator } from '@/lib/colors';
+import { GenerationSettings } from '@/lib/share-url';
+
+// Most entries kept in the undo history; older ones are dropped
+export const HISTORY_LIMIT = 50;
+
+/**
+ * Everything needed to bring a palette back: generated palettes are rebuilt
+ * from their inputs, imported ones (which can't be) keep their colors.
+**/
+export interface PaletteSnapshot {
+  baseColor: string;
+  paletteType: PaletteType;
+  swatchCount: number;
+  seed: number | null;
+  anchors: string[];
+  locked: (string | null)[];
+  overrides: (string | null)[];
+  // Custom swatch order, null for the generated one
+  order: number[] | null;
+  colors: string[] | null;
+  // The rest of the settings the palette was generated with, used again to rebuild it
+  settings: Omit<GenerationSettings, 'swatchCount'>;
+  // Hue offsets of a custom palette, null for the other types
+  harmony: HarmonyStop[] | null;
+}
+
+export const isSameSnapshot = (first: PaletteSnapshot, second: PaletteSnapshot): boolean =>
+  JSON.stringify(first) === JSON.stringify(second);
+
+// First swatch whose color differs between two index-keyed lists, -1 if none
+const firstDifference = (first: (string | null)[], second: (string | null)[]): number => {
+  for (let index = 0; index < Math.max(first.length, second.length); index++) {
+    if ((first[index] ?? null) !== (second[index] ?? null)) {
+      return index;
+    }
+  }
+  return -1;
+};
+
+export interface PaletteChange {
+  label: string;
+  // Changes made by dragging (editing a swatch), whose quick repeats can share one entry
+  continuous: boolean;
+}
+
+/**
+ * Short description of what changed between two snapshots, for the history list.
+**/
+export const describePaletteChange = (previous: PaletteSnapshot | undefined, next: PaletteSnapshot): PaletteChange => {
+  const change = (label: string, continuous = false) => ({ label, continuous });
+
+  if (!previous) {
+    return change('Initial palette');
+  }
+  if (next.colors && JSON.stringify(next.colors) !== JSON.stringify(previous.colors)) {
+    // An inserted swatch is appended to the colors and placed between two others by the order
+    const inserted = next.colors.length === previous.swatchCount + 1
+      && next.order !== null
+      && next.order[next.order.length - 1] !== next.colors.length - 1;
+    return change(inserted ? 'Inserted a swatch' : 'Imported colors');
+  }
+  if (next.seed !== null && next.seed !== previous.seed) {
+    return change('Shuffled');
+  }
+  if (next.baseColor !== previous.baseColor) {
+    return change(`Base color ${next.baseColor}`);
+  }
+  if (next.paletteType !== previous.paletteType) {
+    return change(`Type: ${getPaletteGenerator(next.paletteType)?.label ?? next.paletteType}`);
+  }
+  if (next.swatchCount !== previous.swatchCount) {
+    return change(`${previous.swatchCount} → ${next.swatchCount} swatches`);
+  }
+
+  const edited = firstDifference(previous.overrides, next.overrides);
+  if (edited >= 0) {
+    return next.overrides[edited] ? change(`Edited swatch ${edited + 1}`, true) : change(`Reset swatch ${edited + 1}`);
+  }
+  const locked = firstDifference(previous.locked, next.locked);
+  if (locked >= 0) {
+    return change(`${next.locked[locked] ? 'Locked' : 'Unlocked'} swatch ${locked + 1}`);
+  }
+  if (JSON.stringify(next.order) !== JSON.stringify(previous.order)) {
+    return next.order ? change('Reordered swatches', true) : change('Generated order');
+  }
+  if (JSON.stringify(next.anchors) !== JSON.stringify(previous.anchors)) {
+    return change('Changed anchors');
+  }
+  if (JSON.stringify(next.harmony) !== JSON.stringify(previous.harmony)) {
+    return change('Changed harmony');
+  }
+  if (JSON.stringify(next.settings) !== JSON.stringify(previous.settings)) {
+    return change('Regenerated with new settings');
+  }
+
+  return change('Regenerated');
+};
@@ -0,0 +1,141 @@
+import { hexToOklch, isAchromatic } from '@/lib/colors';
+import { PaletteSnapshot } from '@/lib/palette-history';
+
+/**
+ * A palette saved in the local library. `state` brings it back into the editor
+ * exactly as it was; `colors` are the swatches as shown (edits applied, in
+ * display order) for previews and search.
+**/
+export interface SavedPalette {
+  id: string;
+  name: string;
+  tags: string[];
+  colors: string[];
+  state: PaletteSnapshot;
+  createdAt: number; // ms since epoch
+  updatedAt: number;
+}
+
+const DB_NAME = 'palettelab';
+const DB_VERSION = 1;
+const STORE_NAME = 'palettes';
+
+// Hue names searchable in the library, as OKLCH hue ranges in degrees
+const HUE_RANGES = new Map<string, [number, number]>([
+  ['red', [10, 45]],
+  ['orange', [45, 80]],
+  ['yellow', [80, 125]],
+  ['green', [125, 175]],
+  ['teal', [165, 210]],
+  ['cyan', [175, 225]],
+  ['blue', [225, 285]],
+  ['violet', [280, 315]],
+  ['purple', [285, 335]],
+  ['magenta', [315, 345]],
+  ['pink', [335, 375]],
+]);
+
+// How far a swatch's hue may be from a searched hue in degrees
+const HUE_SEARCH_TOLERANCE = 20;
+
+let database: Promise<IDBDatabase> | null = null;
+
+// Opens the library database once, creating the store on first use
+const openLibrary = (): Promise<IDBDatabase> => {
+  if (!database) {
+    database = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // A failed open can be retried later
+    database.catch(() => {
+      database = null;
+    });
+  }
+  return database;
+};
+
+// Runs one request against the palette store
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openLibrary();
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Every saved palette, most recently updated first
+export const listSavedPalettes = async (): Promise<SavedPalette[]> => {
+  const palettes = await withStore<SavedPalette[]>('readonly', store => store.getAll());
+  return palettes.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+// Adds a palette, or replaces the one with the same id
+export const putSavedPalette = async (palette: SavedPalette): Promise<void> => {
+  await withStore('readwrite', store => store.put(palette));
+};
+
+export const deleteSavedPalette = async (id: string): Promise<void> => {
+  await withStore('readwrite', store => store.delete(id));
+};
+
+const createId = (): string =>
+  `${Date.now().toString(36)}-${Math.floor(Math.random() * 0x100000000).toString(36)}`;
+
+export const createSavedPalette = (name: string, tags: string[], colors: string[], state: PaletteSnapshot): SavedPalette => {
+  const now = Date.now();
+  return { id: createId(), name, tags, colors, state, createdAt: now, updatedAt: now };
+};
+
+export const duplicateSavedPalette = (palette: SavedPalette): SavedPalette =>
+  createSavedPalette(`${palette.name} (copy)`, palette.tags, palette.colors, palette.state);
+
+// Tags typed as a comma-separated list, trimmed, lowercased and without repeats
+export const parseTags = (value: string): string[] =>
+  [...new Set(value.split(',').map(tag => tag.trim().toLowerCase()).filter(Boolean))];
+
+// A hue name from HUE_RANGES or a number of degrees, as the range it covers
+const parseHueTerm = (term: string): [number, number] | null => {
+  const named = HUE_RANGES.get(term);
+  if (named) {
+    return named;
+  }
+  const degrees = /^(\d{1,3})(?:deg|°)?$/.exec(term);
+  if (degrees && Number(degrees[1]) <= 360) {
+    const hue = Number(degrees[1]);
+    return [hue - HUE_SEARCH_TOLERANCE, hue + HUE_SEARCH_TOLERANCE];
+  }
+  return null;
+};
+
+const containsHue = (colors: string[], [from, to]: [number, number]): boolean =>
+  colors.some(color => {
+    const lch = hexToOklch(color);
+    // Ranges may run past 360 or below 0, so try the hue a turn either way too
+    return !isAchromatic(lch) && [lch.h - 360, lch.h, lch.h + 360].some(hue => hue >= from && hue <= to);
+  });
+
+/**
+ * Whether a saved palette matches a search: every word of the query has to
+ * be in its name or one of its tags, or name a hue (`blue`, `200`) one of its
+ * swatches has.
+**/
+export const matchesLibrarySearch = (palette: SavedPalette, query: string): boolean => {
+  const name = palette.name.toLowerCase();
+  return query.toLowerCase().split(/\s+/).filter(Boolean).every(term => {
+    if (name.includes(term) || palette.tags.some(tag => tag.includes(term))) {
+      return true;
+    }
+    const hues = parseHueTerm(term);
+    return hues !== null && containsHue(palette.colors, hues);
+  });
+};
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { isIdentityOrder, moveItem, normalizeOrder, removeFromOrder, sortOrder } from '@/lib/palette-order';
+
+describe('normalizeOrder', () => {
+  it('gives the generated order for null', () => {
+    expect(normalizeOrder(null, 3)).toEqual([0, 1, 2]);
+  });
+
+  it('drops indices past the palette and appends new ones', () => {
+    expect(normalizeOrder([3, 1, 0, 2], 3)).toEqual([1, 0, 2]);
+    expect(normalizeOrder([1, 0], 4)).toEqual([1, 0, 2, 3]);
+  });
+});
+
+describe('moveItem', () => {
+  it('moves an entry and shifts the ones in between', () => {
+    expect(moveItem([0, 1, 2, 3], 0, 2)).toEqual([1, 2, 0, 3]);
+    expect(moveItem([0, 1, 2, 3], 3, 1)).toEqual([0, 3, 1, 2]);
+  });
+});
+
+describe('removeFromOrder', () => {
+  it('drops the removed index and renumbers the ones after it', () => {
+    expect(removeFromOrder([2, 0, 3, 1], 1)).toEqual([1, 0, 2]);
+  });
+});
+
+describe('isIdentityOrder', () => {
+  it('is true only for the generated order', () => {
+    expect(isIdentityOrder([0, 1, 2])).toBe(true);
+    expect(isIdentityOrder([1, 0, 2])).toBe(false);
+  });
+});
+
+describe('sortOrder', () => {
+  const colors = ['#808080', '#0000ff', '#ffffff', '#ff0000'];
+
+  it('sorts by lightness, light to dark', () => {
+    expect(sortOrder(colors, 'lightness')).toEqual([2, 3, 0, 1]);
+  });
+
+  it('sorts by hue with grays last', () => {
+    expect(sortOrder(colors, 'hue').slice(-2)).toEqual([0, 2]);
+  });
+});
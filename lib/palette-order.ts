@@ -0,0 +1,63 @@
+import { hexToOklch, isAchromatic } from '@/lib/colors';
+import { getContrastColor, getContrastRatio } from '@/lib/contrast';
+
+/**
+ * A custom swatch order is a list of palette indices in the order they are
+ * shown. Locks and edits stay keyed by palette index, so reordering never
+ * touches them; null stands for the generated order.
+**/
+export type SwatchSortKey = 'lightness' | 'hue' | 'chroma' | 'contrast';
+
+export const SWATCH_SORTS: { value: SwatchSortKey; label: string }[] = [
+  { value: 'lightness', label: 'Lightness (light to dark)' },
+  { value: 'hue', label: 'Hue' },
+  { value: 'chroma', label: 'Chroma (most colorful first)' },
+  { value: 'contrast', label: 'Contrast (most readable first)' },
+];
+
+export const identityOrder = (length: number): number[] => Array.from({ length }, (_, index) => index);
+
+export const isIdentityOrder = (order: number[]): boolean => order.every((value, index) => value === index);
+
+// Fits an order to a palette of `length` swatches: indices that no longer exist are dropped, new ones go at the end
+export const normalizeOrder = (order: number[] | null, length: number): number[] => {
+  if (!order) {
+    return identityOrder(length);
+  }
+  const kept = order.filter(index => index < length);
+  return [...kept, ...identityOrder(length).filter(index => !kept.includes(index))];
+};
+
+// Moves the entry at position `from` to position `to`, shifting the ones in between
+export const moveItem = <T>(items: T[], from: number, to: number): T[] => {
+  const result = [...items];
+  const [moved] = result.splice(from, 1);
+  result.splice(to, 0, moved);
+  return result;
+};
+
+// The order after removing the swatch at palette index `removed`
+export const removeFromOrder = (order: number[], removed: number): number[] =>
+  order.filter(index => index !== removed).map(index => index > removed ? index - 1 : index);
+
+/**
+ * Palette indices sorted by the given key. Hue goes round the OKLCH wheel with
+ * grays last; ties keep the generated order.
+**/
+export const sortOrder = (colors: string[], key: SwatchSortKey): number[] => {
+  const values = colors.map(color => {
+    const lch = hexToOklch(color);
+    switch (key) {
+      case 'lightness':
+        return -lch.l;
+      case 'hue':
+        return isAchromatic(lch) ? Infinity : lch.h;
+      case 'chroma':
+        return -lch.c;
+      case 'contrast':
+        return -getContrastRatio(getContrastColor(color), color);
+    }
+  });
+
+  return identityOrder(colors.length).sort((a, b) => values[a] - values[b] || a - b);
+};
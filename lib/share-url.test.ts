@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import {
+  GenerationSettings,
+  SharedPalette,
+  formatContrastEnforcement,
+  formatShareHash,
+  parseContrastEnforcement,
+  parseShareHash
+} from '@/lib/share-url';
+
+const SETTINGS: GenerationSettings = {
+  swatchCount: 7,
+  generationSpace: 'oklch',
+  alphaMode: 'ramp',
+  minDistance: 12.5,
+  variation: 'tones',
+  contrastEnforcement: { target: { kind: 'apca', lc: 60 }, against: '#101010' }
+};
+
+describe('formatShareHash and parseShareHash', () => {
+  it('round-trip every part of a palette', () => {
+    const palette: SharedPalette = {
+      color: '#3b82f6',
+      type: 'custom',
+      seed: 123456,
+      settings: SETTINGS,
+      harmony: [
+        { offset: 0, saturation: 0, lightness: 0, weight: 1 },
+        { offset: 150, saturation: -0.1, lightness: 0.2, weight: 0.5 }
+      ],
+      anchors: ['#ff0000', '#00ff00'],
+      locked: [null, '#123456'],
+      overrides: ['#abcdef'],
+      order: [1, 0, 2],
+      colors: ['#3b82f6', '#123456', '#abcdef80']
+    };
+
+    expect(parseShareHash(`#${formatShareHash(palette)}`)).toEqual(palette);
+  });
+
+  it('keep older links with only a color and type working', () => {
+    expect(parseShareHash('#3b82f6/triadic')).toEqual({
+      color: '#3b82f6',
+      type: 'triadic',
+      seed: undefined,
+      settings: undefined,
+      harmony: undefined,
+      anchors: undefined,
+      locked: undefined,
+      overrides: undefined,
+      order: undefined,
+      colors: undefined
+    });
+  });
+
+  it('drop invalid settings and keep the valid ones', () => {
+    const { settings } = parseShareHash('#3b82f6/analogous?n=999&s=lab&m=ramp&d=-1&v=tints&e=bogus');
+    expect(settings).toEqual({ alphaMode: 'ramp', variation: 'tints' });
+  });
+
+  it('read settings without a contrast target as having it off', () => {
+    const { settings } = parseShareHash('#3b82f6/analogous?n=6');
+    expect(settings).toEqual({ swatchCount: 6, contrastEnforcement: null });
+  });
+
+  it('ignore an invalid base color', () => {
+    expect(parseShareHash('#nothex/analogous').color).toBeUndefined();
+  });
+});
+
+describe('formatContrastEnforcement and parseContrastEnforcement', () => {
+  it('round-trip WCAG and APCA targets against text or a background', () => {
+    for (const enforcement of [
+      { target: { kind: 'wcag', level: 'AA' }, against: 'text' },
+      { target: { kind: 'wcag', level: 'AAA' }, against: '#ffffff' },
+      { target: { kind: 'apca', lc: 75 }, against: 'text' }
+    ] as const) {
+      expect(parseContrastEnforcement(formatContrastEnforcement(enforcement))).toEqual(enforcement);
+    }
+  });
+
+  it('reject unknown targets and backgrounds', () => {
+    expect(parseContrastEnforcement('aa')).toBeNull();
+    expect(parseContrastEnforcement('a~text')).toBeNull();
+    expect(parseContrastEnforcement('aa~zzzzzz')).toBeNull();
+  });
+});
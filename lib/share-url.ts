@@ -0,0 +1,235 @@
+import { AlphaMode, GenerationSpace, HarmonyStop, MAX_ANCHORS, MAX_HARMONY_STOPS, MAX_SWATCHES, VariationStrategy, formatSeed, isValidHexColor, parseSeed, standardizeHexColor } from '@/lib/colors';
+import { ContrastEnforcement, ContrastTarget } from '@/lib/contrast';
+
+// Everything besides the color, type and harmony that changes what a palette generates
+export interface GenerationSettings {
+  swatchCount: number;
+  generationSpace: GenerationSpace;
+  alphaMode: AlphaMode;
+  minDistance: number;
+  variation: VariationStrategy;
+  contrastEnforcement: ContrastEnforcement | null;
+}
+
+/**
+ * What a share URL hash carries: `#<hex>/<type>?seed=<seed>&n=<count>&s=<space>&m=<alpha mode>&d=<min distance>&v=<variation>&e=<contrast>&h=<harmony>&a=<anchors>&l=<locks>&o=<overrides>&r=<order>&c=<colors>`.
+ * The color and type stay positional so older links keep working; everything
+ * newer goes in the query part. `colors` is only set for palettes that can't be
+ * regenerated from the base color, such as ones taken from an image. Settings
+ * missing from a link (older ones have none) are left to the receiver's defaults.
+**/
+export interface SharedPalette {
+  color: string;
+  type: string;
+  seed?: number | null;
+  settings?: Partial<GenerationSettings>;
+  harmony?: HarmonyStop[];
+  // Anchor colors besides the base one
+  anchors?: string[];
+  // Locked colors by swatch index, null for unlocked swatches
+  locked?: (string | null)[];
+  // Hand-edited colors by swatch index, null for generated swatches
+  overrides?: (string | null)[];
+  // Custom swatch order as palette indices in display order
+  order?: number[];
+  colors?: string[];
+}
+
+// Custom harmonies travel as `offset~saturation~lightness~weight` stops joined by `_`,
+// characters encodeURIComponent leaves alone so the URL stays readable
+export const formatHarmony = (stops: HarmonyStop[]): string =>
+  stops.map(({ offset, saturation, lightness, weight }) => [offset, saturation, lightness, weight].join('~')).join('_');
+
+export const parseHarmony = (text: string): HarmonyStop[] | null => {
+  const stops = text.split('_').map(stop => stop.split('~').map(Number));
+  if (stops.length > MAX_HARMONY_STOPS || stops.some(fields => fields.length !== 4 || !fields.every(Number.isFinite))) {
+    return null;
+  }
+
+  return stops.map(([offset, saturation, lightness, weight]) => ({
+    offset,
+    saturation,
+    lightness,
+    weight: Math.max(0, weight)
+  }));
+};
+
+// Explicit colors travel as hex without `#`, joined by `-`
+export const formatColorList = (colors: string[]): string =>
+  colors.map(color => standardizeHexColor(color).substring(1)).join('-');
+
+export const parseColorList = (text: string): string[] | null => {
+  const colors = text.split('-');
+  return colors.every(isValidHexColor) ? colors.map(standardizeHexColor) : null;
+};
+
+// Colors for some swatches (locks, overrides) travel as `index~hex` pairs joined by `_`
+export const formatIndexedColors = (colors: (string | null)[]): string =>
+  colors
+    .flatMap((color, index) => color ? [`${index}~${standardizeHexColor(color).substring(1)}`] : [])
+    .join('_');
+
+export const parseIndexedColors = (text: string): (string | null)[] | null => {
+  const colors: (string | null)[] = [];
+  for (const pair of text.split('_')) {
+    const [index, color] = pair.split('~');
+    const position = Number(index);
+    if (!Number.isInteger(position) || position < 0 || position >= MAX_SWATCHES || !color || !isValidHexColor(color)) {
+      return null;
+    }
+    colors[position] = standardizeHexColor(color);
+  }
+  return Array.from(colors, color => color ?? null);
+};
+
+// A custom order travels as palette indices joined by `.`
+export const formatOrder = (order: number[]): string => order.join('.');
+
+export const parseOrder = (text: string): number[] | null => {
+  const order = text.split('.').map(Number);
+  const isPermutation = order.length <= MAX_SWATCHES
+    && order.every(index => Number.isInteger(index) && index >= 0 && index < order.length)
+    && new Set(order).size === order.length;
+  return isPermutation ? order : null;
+};
+
+const GENERATION_SPACES: GenerationSpace[] = ['hsl', 'oklch'];
+const ALPHA_MODES: AlphaMode[] = ['fixed', 'ramp'];
+const VARIATION_STRATEGIES: VariationStrategy[] = ['auto', 'tints', 'shades', 'tones'];
+
+// Contrast targets travel as `aa`, `aaa` or `lc<Lc>`, then `~` and `text` or a background hex without `#`
+export const formatContrastEnforcement = ({ target, against }: ContrastEnforcement): string => {
+  const targetText = target.kind === 'wcag' ? target.level.toLowerCase() : `lc${target.lc}`;
+  return `${targetText}~${against === 'text' ? 'text' : standardizeHexColor(against).substring(1)}`;
+};
+
+export const parseContrastEnforcement = (text: string): ContrastEnforcement | null => {
+  const [targetText, againstText] = text.split('~');
+  const lc = /^lc(\d+(?:\.\d+)?)$/.exec(targetText ?? '');
+  const target: ContrastTarget | null = targetText === 'aa' || targetText === 'aaa'
+    ? { kind: 'wcag', level: targetText === 'aa' ? 'AA' : 'AAA' }
+    : lc ? { kind: 'apca', lc: Number(lc[1]) } : null;
+  if (!target || !againstText) {
+    return null;
+  }
+  if (againstText === 'text') {
+    return { target, against: 'text' };
+  }
+  return isValidHexColor(againstText) ? { target, against: standardizeHexColor(againstText) } : null;
+};
+
+const formatSettings = (settings: Partial<GenerationSettings>): string[] => {
+  const params: string[] = [];
+  if (settings.swatchCount !== undefined) {
+    params.push(`n=${settings.swatchCount}`);
+  }
+  if (settings.generationSpace) {
+    params.push(`s=${settings.generationSpace}`);
+  }
+  if (settings.alphaMode) {
+    params.push(`m=${settings.alphaMode}`);
+  }
+  if (settings.minDistance !== undefined) {
+    params.push(`d=${settings.minDistance}`);
+  }
+  if (settings.variation) {
+    params.push(`v=${settings.variation}`);
+  }
+  if (settings.contrastEnforcement) {
+    params.push(`e=${formatContrastEnforcement(settings.contrastEnforcement)}`);
+  }
+  return params;
+};
+
+// Only valid settings are returned; a link with settings but no contrast target had it off
+const parseSettings = (params: URLSearchParams): Partial<GenerationSettings> => {
+  const settings: Partial<GenerationSettings> = {};
+  const count = Number(params.get('n'));
+  if (params.has('n') && Number.isInteger(count) && count >= 1 && count <= MAX_SWATCHES) {
+    settings.swatchCount = count;
+  }
+  const space = GENERATION_SPACES.find(value => value === params.get('s'));
+  if (space) {
+    settings.generationSpace = space;
+  }
+  const alphaMode = ALPHA_MODES.find(value => value === params.get('m'));
+  if (alphaMode) {
+    settings.alphaMode = alphaMode;
+  }
+  const minDistance = Number(params.get('d'));
+  if (params.has('d') && Number.isFinite(minDistance) && minDistance >= 0) {
+    settings.minDistance = minDistance;
+  }
+  const variation = VARIATION_STRATEGIES.find(value => value === params.get('v'));
+  if (variation) {
+    settings.variation = variation;
+  }
+  if (params.has('e')) {
+    const enforcement = parseContrastEnforcement(params.get('e')!);
+    if (enforcement) {
+      settings.contrastEnforcement = enforcement;
+    }
+  } else if (Object.keys(settings).length > 0) {
+    settings.contrastEnforcement = null;
+  }
+  return settings;
+};
+
+export const formatShareHash = ({ color, type, seed, settings, harmony, anchors, locked, overrides, order, colors }: SharedPalette): string => {
+  const params: string[] = [];
+  if (seed != null) {
+    params.push(`seed=${formatSeed(seed)}`);
+  }
+  if (settings) {
+    params.push(...formatSettings(settings));
+  }
+  if (harmony && harmony.length > 0) {
+    params.push(`h=${encodeURIComponent(formatHarmony(harmony))}`);
+  }
+  if (anchors && anchors.length > 0) {
+    params.push(`a=${formatColorList(anchors)}`);
+  }
+  if (locked && locked.some(Boolean)) {
+    params.push(`l=${formatIndexedColors(locked)}`);
+  }
+  if (overrides && overrides.some(Boolean)) {
+    params.push(`o=${formatIndexedColors(overrides)}`);
+  }
+  if (order && order.length > 0) {
+    params.push(`r=${formatOrder(order)}`);
+  }
+  if (colors && colors.length > 0) {
+    params.push(`c=${formatColorList(colors)}`);
+  }
+
+  const query = params.join('&');
+  return `${standardizeHexColor(color).substring(1)}/${type}${query ? `?${query}` : ''}`;
+};
+
+// Reads whatever parts of the hash are valid; the caller decides the fallbacks
+export const parseShareHash = (hash: string): Partial<SharedPalette> => {
+  const [path, query = ''] = hash.replace(/^#/, '').split('?');
+  const [color, type] = path.split('/');
+  const params = new URLSearchParams(query);
+  const seed = params.has('seed') ? parseSeed(params.get('seed')!) : null;
+  const settings = parseSettings(params);
+  const harmony = params.has('h') ? parseHarmony(params.get('h')!) : null;
+  const anchors = params.has('a') ? parseColorList(params.get('a')!) : null;
+  const locked = params.has('l') ? parseIndexedColors(params.get('l')!) : null;
+  const overrides = params.has('o') ? parseIndexedColors(params.get('o')!) : null;
+  const order = params.has('r') ? parseOrder(params.get('r')!) : null;
+  const colors = params.has('c') ? parseColorList(params.get('c')!) : null;
+
+  return {
+    color: color && isValidHexColor(color) ? standardizeHexColor(color) : undefined,
+    type: type || undefined,
+    seed: seed ?? undefined,
+    settings: Object.keys(settings).length > 0 ? settings : undefined,
+    harmony: harmony ?? undefined,
+    anchors: anchors ? anchors.slice(0, MAX_ANCHORS - 1) : undefined,
+    locked: locked ?? undefined,
+    overrides: overrides ?? undefined,
+    order: order ?? undefined,
+    colors: colors ?? undefined
+  };
+};
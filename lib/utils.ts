@@ -4,3 +4,21 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+/**
+ * CSS background layer for a light gray checkerboard with `size` px tiles.
+ */
+export function checkerboard(size: number = 12) {
+  return `repeating-conic-gradient(#d4d4d4 0% 25%, #ffffff 0% 50%) 0 0 / ${size}px ${size}px`
+}
+
+/**
+ * CSS background that paints a hex color over a checkerboard, so translucent
+ * colors read as translucent. Opaque colors are returned unchanged.
+ */
+export function withCheckerboard(color: string, size: number = 12) {
+  if (!/^#([0-9a-f]{4}|[0-9a-f]{8})$/i.test(color)) {
+    return color
+  }
+  return `linear-gradient(${color}, ${color}), ${checkerboard(size)}`
+}